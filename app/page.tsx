@@ -13,6 +13,7 @@ import { ScreenCaptureManager, processFrameForVision } from '@/lib/screen-captur
 import { InferenceEngine, type InferenceConfig, type GenerationConfig } from '@/lib/model-runtime/inference/inference-engine';
 import { WebGPUBackend } from '@/lib/gpu-simulator/webgpu-backend';
 import { HybridGPUExecutor, type ImpossibleGPUConfig } from '@/lib/gpu-simulator/impossible-gpu';
+import { ExecutionEngine, type ExecutionObserver } from '@/lib/gpu-simulator/execution/execution-engine';
 import type { ModelWeights } from '@/lib/model-runtime/quantization/loader';
 import { 
   DataCollector, 
@@ -53,6 +54,14 @@ export default function Home() {
   const [inferenceEngine, setInferenceEngine] = useState<InferenceEngine | null>(null);
   const [webgpu, setWebgpu] = useState<WebGPUBackend | null>(null);
   const [hybridGPU, setHybridGPU] = useState<HybridGPUExecutor | null>(null);
+  // Instruction-level simulator behind the System Status numbers and the simulator panel
+  const [simulator] = useState(
+    () =>
+      new ExecutionEngine({
+        memory: { globalMemorySize: 128, cacheSize: 8, lineSize: 4, latency: 4 },
+        warpSize: 4,
+      })
+  );
   const [backendUsage, setBackendUsage] = useState<{ webgpu: number; impossible: number }>({ webgpu: 0, impossible: 0 });
 
   // Fine-tuning system state
@@ -143,7 +152,6 @@ export default function Home() {
             currentFile: progress.currentFile,
             message: 'Loading model weights...',
           });
-          setGpuStats((prev: typeof gpuStats) => ({ ...prev, memoryUsage: Math.min(percent, 90) }));
         }
       );
 
@@ -162,37 +170,58 @@ export default function Home() {
       
       const engine = new InferenceEngine(inferenceConfig, weights, tokenizer);
       setInferenceEngine(engine);
-      setGpuStats((prev: typeof gpuStats) => ({ ...prev, memoryUsage: 50, totalThreads: 32 * 32 })); // Model loaded
     };
 
     init();
   }, []);
 
-  // Update GPU stats periodically
+  // Log optimized GPU performance periodically
   useEffect(() => {
     const interval = setInterval(() => {
       if (hybridGPU) {
         const { stats, achievedSpeedup } = hybridGPU.getStats();
-        setGpuStats((prev: typeof gpuStats) => ({
-          ...prev,
-          cycle: stats.cyclesElapsed,
-          memoryUsage: Math.min(prev.memoryUsage + 0.1, 100),
-          cacheHitRate: stats.cacheHitRate,
-          activeThreads: Math.floor(stats.operationsPerCycle / 100),
-        }));
         console.log(`Performance: ${achievedSpeedup.toFixed(1)}x speedup, ${stats.averageLatency.toFixed(2)}ms avg latency`);
-      } else {
-        setGpuStats((prev: typeof gpuStats) => ({
-          ...prev,
-          cycle: prev.cycle + 1,
-          memoryUsage: Math.min(prev.memoryUsage + 0.1, 100),
-        }));
       }
     }, 1000);
 
     return () => clearInterval(interval);
   }, [hybridGPU]);
 
+  // Update GPU stats periodically from the simulator's state, statistics
+  // and the global memory addresses its current run has accessed
+  useEffect(() => {
+    const accessed = new Set<number>();
+    const observer: ExecutionObserver = {
+      onCycleStart: (cycle) => {
+        if (cycle === 0) {
+          accessed.clear();
+        }
+      },
+      onMemoryAccess: (event) => {
+        accessed.add(event.address);
+      },
+    };
+    simulator.addObserver(observer);
+
+    const interval = setInterval(() => {
+      const { threads, memory } = simulator.getState();
+      const stats = simulator.getStats();
+      setGpuStats((prev: typeof gpuStats) => ({
+        ...prev,
+        cycle: stats.cycle,
+        activeThreads: threads.filter((thread) => thread.active).length,
+        totalThreads: threads.length,
+        memoryUsage: memory.length > 0 ? (accessed.size / memory.length) * 100 : 0,
+        cacheHitRate: stats.cache?.hitRate ?? 0,
+      }));
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      simulator.removeObserver(observer);
+    };
+  }, [simulator]);
+
   const handleSendMessage = useCallback(
     async (text: string) => {
       const userMessage: Message = {
@@ -470,6 +499,7 @@ export default function Home() {
               cacheHitRate={gpuStats.cacheHitRate}
               isWebGPUAvailable={gpuStats.isWebGPUAvailable}
               backendUsage={backendUsage}
+              simulator={simulator}
             />
             
             {hybridGPU && (
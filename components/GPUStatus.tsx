@@ -1,5 +1,9 @@
 'use client';
 
+import { useState } from 'react';
+import type { ExecutionEngine } from '@/lib/gpu-simulator/execution/execution-engine';
+import SimulatorPanel from './SimulatorPanel';
+
 interface GPUStatusProps {
   cycle: number;
   activeThreads: number;
@@ -8,6 +12,7 @@ interface GPUStatusProps {
   cacheHitRate?: number;
   isWebGPUAvailable?: boolean;
   backendUsage?: { webgpu: number; impossible: number };
+  simulator?: ExecutionEngine; // Engine the simulator panel runs on
 }
 
 export default function GPUStatus({
@@ -18,15 +23,25 @@ export default function GPUStatus({
   cacheHitRate,
   isWebGPUAvailable,
   backendUsage,
+  simulator,
 }: GPUStatusProps) {
+  const [showSimulator, setShowSimulator] = useState(false);
   const threadPercentage = totalThreads > 0 ? (activeThreads / totalThreads) * 100 : 0;
   const totalOps = (backendUsage?.webgpu || 0) + (backendUsage?.impossible || 0);
   const impossiblePercentage = totalOps > 0 ? ((backendUsage?.impossible || 0) / totalOps) * 100 : 0;
 
   return (
     <div className="rounded-lg border border-neutral-800 bg-neutral-950/50">
-      <div className="border-b border-neutral-800 px-5 py-4">
+      <div className="border-b border-neutral-800 px-5 py-4 flex items-center justify-between">
         <h2 className="text-sm font-medium">System Status</h2>
+        {simulator && (
+          <button
+            onClick={() => setShowSimulator(!showSimulator)}
+            className="text-xs text-neutral-400 hover:text-neutral-200"
+          >
+            {showSimulator ? 'Hide simulator' : 'Show simulator'}
+          </button>
+        )}
       </div>
       
       <div className="p-5 space-y-4">
@@ -106,6 +121,8 @@ export default function GPUStatus({
             </div>
           </div>
         )}
+
+        {showSimulator && simulator && <SimulatorPanel engine={simulator} />}
       </div>
     </div>
   );
@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ExecutionEngine } from '@/lib/gpu-simulator/execution/execution-engine';
+import { KernelLibrary } from '@/lib/gpu-simulator/kernels/kernel-library';
+import { SimulationRecorder, type CycleFrame } from '@/lib/gpu-simulator/visualization';
+
+type DemoKernel = 'matadd' | 'matmul' | 'transpose' | 'reduce';
+
+interface SimulatorPanelProps {
+  engine: ExecutionEngine; // Needs at least 48 words of global memory for the demos
+}
+
+interface Recording {
+  frames: CycleFrame[];
+  recorder: SimulationRecorder;
+  completed: boolean;
+  memorySize: number;
+}
+
+/**
+ * Run a small demo kernel on the engine and record every cycle
+ */
+function recordDemo(engine: ExecutionEngine, kernel: DemoKernel): Recording {
+  const recorder = new SimulationRecorder(engine);
+  const library = new KernelLibrary(engine, { blockDim: 8 });
+  const values = (n: number) => Array.from({ length: n }, (_, i) => (i * 7) % 11 - 5);
+
+  let completed = true;
+  try {
+    switch (kernel) {
+      case 'matadd':
+        library.matadd(values(16), values(16).reverse());
+        break;
+      case 'matmul':
+        library.matmul(values(16), values(16), 4, 4, 4);
+        break;
+      case 'transpose':
+        library.transpose(values(24), 4, 6);
+        break;
+      case 'reduce':
+        library.reduceSum(values(8));
+        break;
+    }
+  } catch {
+    completed = false;
+  }
+  recorder.detach();
+
+  return { frames: [...recorder.getFrames()], recorder, completed, memorySize: engine.getState().memory.length };
+}
+
+/**
+ * Colour of a memory cell from its access count
+ */
+function heatColor(count: number, max: number): string {
+  if (count === 0 || max === 0) return 'rgb(23 23 23)';
+  const level = Math.round(60 + (count / max) * 180);
+  return `rgb(${level} ${level} ${level})`;
+}
+
+export default function SimulatorPanel({ engine }: SimulatorPanelProps) {
+  const [kernel, setKernel] = useState<DemoKernel>('matadd');
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    setRecording(recordDemo(engine, kernel));
+    setPosition(0);
+    setPlaying(false);
+  }, [engine, kernel]);
+
+  const lastIndex = recording ? recording.frames.length - 1 : 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (position >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setPosition(position + 1), 120);
+    return () => clearTimeout(timeout);
+  }, [playing, position, lastIndex]);
+
+  const frame = recording?.frames[position];
+  const heatmap = useMemo(
+    () => (recording && frame ? recording.recorder.getHeatmap(frame.cycle, recording.memorySize) : null),
+    [recording, frame]
+  );
+  const cache = useMemo(
+    () => (recording && frame ? recording.recorder.getCacheActivity(frame.cycle) : null),
+    [recording, frame]
+  );
+
+  if (!recording || !frame || !heatmap || !cache) {
+    return (
+      <div className="rounded-lg border border-neutral-800 p-4">
+        <span className="text-xs text-neutral-500">
+          {recording ? 'Kernel produced no cycles' : 'Running simulator...'}
+        </span>
+      </div>
+    );
+  }
+
+  const accessedNow = new Map(frame.accesses.map((a) => [a.address, a]));
+  const usedMemory = heatmap.reads.reduce((last, _, i) => (heatmap.reads[i] + heatmap.writes[i] > 0 ? i : last), -1) + 1;
+  const cells = Math.max(16, Math.ceil(usedMemory / 16) * 16);
+  const cacheTotal = cache.hits + cache.misses;
+
+  return (
+    <div className="rounded-lg border border-neutral-800 space-y-4 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-neutral-500">Simulator</span>
+        <select
+          value={kernel}
+          onChange={(e) => setKernel(e.target.value as DemoKernel)}
+          className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-xs text-neutral-300"
+        >
+          <option value="matadd">matadd</option>
+          <option value="matmul">matmul</option>
+          <option value="transpose">transpose</option>
+          <option value="reduce">reduce</option>
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPosition((p) => Math.max(0, p - 1))}
+            className="px-2 py-1 rounded border border-neutral-800 text-xs text-neutral-300 hover:bg-neutral-900"
+          >
+            ‹
+          </button>
+          <button
+            onClick={() => {
+              if (position >= lastIndex) setPosition(0);
+              setPlaying(!playing);
+            }}
+            className="px-2 py-1 rounded border border-neutral-800 text-xs text-neutral-300 hover:bg-neutral-900 w-14"
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <button
+            onClick={() => setPosition((p) => Math.min(lastIndex, p + 1))}
+            className="px-2 py-1 rounded border border-neutral-800 text-xs text-neutral-300 hover:bg-neutral-900"
+          >
+            ›
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={lastIndex}
+            value={position}
+            onChange={(e) => {
+              setPlaying(false);
+              setPosition(Number(e.target.value));
+            }}
+            className="flex-1 accent-neutral-300"
+          />
+          <span className="text-xs text-neutral-300 font-mono w-20 text-right">
+            {frame.cycle} / {recording.frames[lastIndex].cycle}
+          </span>
+        </div>
+
+        <div className="flex h-4 gap-px overflow-hidden rounded">
+          {recording.frames.map((f, i) => (
+            <div
+              key={f.cycle}
+              onClick={() => {
+                setPlaying(false);
+                setPosition(i);
+              }}
+              className={`flex-1 cursor-pointer ${
+                i === position
+                  ? 'bg-neutral-100'
+                  : f.issuedWarp === null
+                    ? 'bg-neutral-900'
+                    : f.accesses.length > 0
+                      ? 'bg-neutral-500'
+                      : 'bg-neutral-700'
+              }`}
+              title={`Cycle ${f.cycle}: ${f.opcode ? `W${f.issuedWarp} ${f.opcode} @${f.issuedPC}` : 'stall'}`}
+            />
+          ))}
+        </div>
+        <div className="text-xs text-neutral-500 font-mono">
+          {frame.opcode
+            ? `W${frame.issuedWarp} issued ${frame.opcode} @ PC ${frame.issuedPC} (${frame.lanes} lanes)`
+            : 'No warp issued'}
+          {!recording.completed && ' · kernel faulted'}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {frame.warps.map((warp) => (
+          <div key={warp.id} className="flex items-center gap-2 text-xs font-mono">
+            <span className={`w-16 ${warp.id === frame.issuedWarp ? 'text-neutral-100' : 'text-neutral-500'}`}>
+              W{warp.id} b{warp.blockId}
+            </span>
+            <span className="w-12 text-neutral-300">PC {warp.pc}</span>
+            <span className="w-12 text-neutral-500">
+              {warp.threads.map((_, lane) => ((warp.activeMask >> lane) & 1 ? '1' : '0')).join('')}
+            </span>
+            <div className="flex gap-0.5">
+              {warp.threads.map((thread, lane) => {
+                const inMask = (warp.activeMask & (1 << lane)) !== 0;
+                const color = !thread.active
+                  ? 'bg-neutral-900 text-neutral-700'
+                  : thread.waitingAtBarrier
+                    ? 'bg-neutral-700 text-neutral-300'
+                    : inMask
+                      ? 'bg-neutral-200 text-neutral-900'
+                      : 'bg-neutral-800 text-neutral-400';
+                return (
+                  <div
+                    key={thread.id}
+                    className={`w-6 h-5 rounded flex items-center justify-center ${color}`}
+                    title={`Thread ${thread.id}, PC ${thread.pc}${thread.active ? '' : ', returned'}${
+                      thread.waitingAtBarrier ? ', at barrier' : ''
+                    }`}
+                  >
+                    {thread.active ? thread.pc : '·'}
+                  </div>
+                );
+              })}
+            </div>
+            <span className="text-neutral-500">
+              {warp.finished
+                ? 'done'
+                : warp.pendingRequests > 0
+                  ? `mem ${warp.pendingRequests}`
+                  : warp.stackDepth > 1
+                    ? 'diverged'
+                    : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-neutral-500">Memory accesses</span>
+          <span className="text-xs text-neutral-300 font-mono">
+            {cacheTotal > 0
+              ? `${cache.hits} hit / ${cache.misses} miss (${((cache.hits / cacheTotal) * 100).toFixed(0)}%), ${cache.coalesced} coalesced`
+              : 'no cached accesses'}
+          </span>
+        </div>
+        <div className="grid gap-px" style={{ gridTemplateColumns: 'repeat(16, minmax(0, 1fr))' }}>
+          {Array.from({ length: cells }, (_, address) => {
+            const count = heatmap.reads[address] + heatmap.writes[address];
+            const access = accessedNow.get(address);
+            const ring = !access
+              ? ''
+              : access.cacheHit === false
+                ? 'ring-1 ring-red-400'
+                : access.cacheHit === true
+                  ? 'ring-1 ring-green-400'
+                  : 'ring-1 ring-neutral-100';
+            return (
+              <div
+                key={address}
+                className={`h-3 rounded-sm ${ring}`}
+                style={{ backgroundColor: heatColor(count, heatmap.max) }}
+                title={`[${address}] ${heatmap.reads[address]} reads, ${heatmap.writes[address]} writes`}
+              />
+            );
+          })}
+        </div>
+        {frame.accesses.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {frame.accesses.map((access, i) => (
+              <span
+                key={i}
+                className={`text-xs font-mono px-1 rounded ${
+                  access.cacheHit === false
+                    ? 'bg-red-950 text-red-300'
+                    : access.cacheHit === true
+                      ? 'bg-green-950 text-green-300'
+                      : 'bg-neutral-900 text-neutral-300'
+                }`}
+              >
+                {access.write ? 'ST' : 'LD'} [{access.address}] {access.cacheHit === null ? '' : access.cacheHit ? 'hit' : 'miss'}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
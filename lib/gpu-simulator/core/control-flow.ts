@@ -0,0 +1,100 @@
+/**
+ * Control Flow Analysis
+ * Computes SIMT reconvergence points (immediate post-dominators)
+ * from a decoded program
+ */
+
+import type { Instruction } from '../types';
+
+/**
+ * Successor PCs of each instruction; `program.length` is the exit node
+ */
+function getSuccessors(program: Instruction[], pc: number): number[] {
+  const exit = program.length;
+  const clamp = (target: number) => (target >= 0 && target < exit ? target : exit);
+  const instruction = program[pc];
+
+  switch (instruction.opcode) {
+    case 'RET':
+      return [exit];
+    case 'BR':
+      return [clamp(pc + (instruction.immediate ?? 0))];
+    case 'BRz':
+    case 'BRnz':
+    case 'BRn':
+    case 'BRp':
+      return [clamp(pc + (instruction.immediate ?? 0)), clamp(pc + 1)];
+    default:
+      return [clamp(pc + 1)];
+  }
+}
+
+/**
+ * Compute the immediate post-dominator of every instruction
+ * Returns one PC per instruction; `program.length` means the paths only
+ * meet at thread exit
+ */
+export function computeReconvergencePoints(program: Instruction[]): number[] {
+  const n = program.length;
+  const words = Math.ceil((n + 1) / 32);
+  const successors = program.map((_, pc) => getSuccessors(program, pc));
+
+  // pdom[i] as a bitset over nodes 0..n (n = exit)
+  const pdom: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    const set = new Uint32Array(words);
+    if (i === n) {
+      set[n >>> 5] |= 1 << (n & 31);
+    } else {
+      set.fill(0xffffffff);
+    }
+    pdom.push(set);
+  }
+
+  // Iterate pdom(i) = {i} ∪ ⋂ pdom(succ) to a fixed point (reverse order converges fastest)
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = n - 1; i >= 0; i--) {
+      const next = new Uint32Array(words).fill(0xffffffff);
+      for (const s of successors[i]) {
+        for (let w = 0; w < words; w++) {
+          next[w] &= pdom[s][w];
+        }
+      }
+      next[i >>> 5] |= 1 << (i & 31);
+      for (let w = 0; w < words; w++) {
+        if (next[w] !== pdom[i][w]) {
+          pdom[i] = next;
+          changed = true;
+          break;
+        }
+      }
+    }
+  }
+
+  const size = (set: Uint32Array) => {
+    let count = 0;
+    for (let w = 0; w < words; w++) {
+      let x = set[w];
+      while (x) {
+        x &= x - 1;
+        count++;
+      }
+    }
+    return count;
+  };
+  const sizes = pdom.map(size);
+
+  // Strict post-dominators form a chain; the immediate one has exactly one
+  // fewer post-dominator than the node itself
+  return program.map((_, i) => {
+    const target = sizes[i] - 1;
+    for (let d = 0; d <= n; d++) {
+      if (d !== i && (pdom[i][d >>> 5] & (1 << (d & 31))) !== 0 && sizes[d] === target) {
+        return d;
+      }
+    }
+    return n;
+  });
+}
@@ -14,6 +14,137 @@ export interface ALUResult {
   overflow: boolean;
 }
 
+/**
+ * Shared scratch for reinterpreting 32-bit patterns as IEEE-754 singles
+ */
+const floatScratch = new Float32Array(1);
+const bitsScratch = new Uint32Array(floatScratch.buffer);
+
+/**
+ * Interpret a register word as an IEEE-754 single
+ */
+export function bitsToFloat(word: Word): number {
+  bitsScratch[0] = word;
+  return floatScratch[0];
+}
+
+/**
+ * Round a number to single precision and return its bit pattern
+ */
+export function floatToBits(value: number): Word {
+  floatScratch[0] = value;
+  return bitsScratch[0];
+}
+
+/**
+ * Canonical quiet NaN
+ */
+const FLOAT_NAN = 0x7fc00000;
+
+/**
+ * Apply an integer ALU operation to two operand words (unsigned 32-bit
+ * result; DIV is signed and floors, and division by zero gives 0)
+ */
+export function applyALU(op: string, val1: Word, val2: Word): Word {
+  switch (op) {
+    case 'ADD':
+      return (val1 + val2) >>> 0;
+    case 'SUB':
+      return (val1 - val2) >>> 0;
+    case 'MUL':
+      return Math.imul(val1, val2) >>> 0; // Lower 32 bits, exact for large operands
+    case 'DIV':
+      return val2 === 0 ? 0 : Math.floor((val1 | 0) / (val2 | 0)) >>> 0;
+    case 'AND':
+      return (val1 & val2) >>> 0;
+    case 'OR':
+      return (val1 | val2) >>> 0;
+    case 'XOR':
+      return (val1 ^ val2) >>> 0;
+    case 'SHL': // Shift left
+      return (val1 << (val2 & 0x1f)) >>> 0;
+    case 'SHR': // Shift right (logical)
+      return val1 >>> (val2 & 0x1f);
+    case 'SRA': // Shift right (arithmetic)
+      return (val1 >> (val2 & 0x1f)) >>> 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Apply a single-precision float operation to register bit patterns
+ * `acc` is rd's value, accumulated by FMA (rd = rs1 * rs2 + rd, rounded
+ * once); ITOF, FTOI and FEXP only read the first operand.
+ */
+export function applyFloat(op: string, bits1: Word, bits2: Word, acc: Word = 0): Word {
+  const a = bitsToFloat(bits1);
+  const b = bitsToFloat(bits2);
+
+  switch (op) {
+    case 'FADD':
+      return floatToBits(a + b);
+    case 'FSUB':
+      return floatToBits(a - b);
+    case 'FMUL':
+      return floatToBits(a * b);
+    case 'FDIV':
+      return floatToBits(a / b);
+    case 'FMA':
+      // The double-precision product of two singles is exact
+      return floatToBits(a * b + bitsToFloat(acc));
+    case 'FMAX':
+      return maxNum(a, b);
+    case 'ITOF':
+      return floatToBits(bits1 | 0);
+    case 'FTOI':
+      return floatToInt(a);
+    case 'FEXP':
+      return floatToBits(expApprox(a));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * IEEE-754 maxNum: a NaN operand is ignored, and +0 is larger than -0
+ */
+function maxNum(a: number, b: number): Word {
+  if (Number.isNaN(a) && Number.isNaN(b)) return FLOAT_NAN;
+  if (Number.isNaN(a)) return floatToBits(b);
+  if (Number.isNaN(b)) return floatToBits(a);
+  if (a === 0 && b === 0) return floatToBits(Object.is(a, -0) ? b : a);
+  return floatToBits(a > b ? a : b);
+}
+
+/**
+ * Convert to a signed integer, truncating toward zero
+ * Out-of-range values saturate and NaN becomes 0
+ */
+function floatToInt(value: number): Word {
+  if (Number.isNaN(value)) return 0;
+  if (value >= 2147483647) return 0x7fffffff;
+  if (value <= -2147483648) return 0x80000000;
+  return Math.trunc(value) >>> 0;
+}
+
+/**
+ * Approximate e^x like a GPU special function unit: 2^(x * log2 e),
+ * split into an integer power and a fraction in [-0.5, 0.5] evaluated
+ * with a degree-6 polynomial (relative error below 2^-22)
+ */
+function expApprox(x: number): number {
+  if (Number.isNaN(x)) return NaN;
+  const y = x * Math.LOG2E;
+  if (y >= 128) return Infinity;
+  if (y < -150) return 0;
+
+  const n = Math.round(y);
+  const t = (y - n) * Math.LN2; // 2^f = e^t, |t| <= ln2 / 2
+  const poly = 1 + t * (1 + t * (1 / 2 + t * (1 / 6 + t * (1 / 24 + t * (1 / 120 + t / 720)))));
+  return poly * Math.pow(2, n);
+}
+
 export class ExecutionUnit {
   private registerFile: RegisterFile;
 
@@ -36,45 +167,38 @@ export class ExecutionUnit {
         ? this.registerFile.read(threadId, rs2)
         : (rs2 as number);
 
-    let result: Word = 0;
+    return this.operate(op, val1, val2);
+  }
+
+  /**
+   * Execute ALU operation with an immediate second operand
+   */
+  executeALUImmediate(
+    threadId: number,
+    op: string,
+    rs1: RegisterIndex,
+    immediate: number
+  ): ALUResult {
+    return this.operate(op, this.registerFile.read(threadId, rs1), immediate >>> 0);
+  }
+
+  /**
+   * Apply an ALU operation to two operand values, with flags
+   */
+  private operate(op: string, val1: Word, val2: Word): ALUResult {
+    const result = applyALU(op, val1, val2);
     let overflow = false;
 
     switch (op) {
       case 'ADD':
-        result = this.add(val1, val2);
         overflow = this.checkAddOverflow(val1, val2, result);
         break;
       case 'SUB':
-        result = this.subtract(val1, val2);
         overflow = this.checkSubOverflow(val1, val2, result);
         break;
       case 'MUL':
-        result = this.multiply(val1, val2);
         overflow = this.checkMulOverflow(val1, val2, result);
         break;
-      case 'DIV':
-        result = this.divide(val1, val2);
-        break;
-      case 'AND':
-        result = val1 & val2;
-        break;
-      case 'OR':
-        result = val1 | val2;
-        break;
-      case 'XOR':
-        result = val1 ^ val2;
-        break;
-      case 'SHL': // Shift left
-        result = val1 << (val2 & 0x1f);
-        break;
-      case 'SHR': // Shift right (logical)
-        result = val1 >>> (val2 & 0x1f);
-        break;
-      case 'SRA': // Shift right (arithmetic)
-        result = val1 >> (val2 & 0x1f);
-        break;
-      default:
-        result = 0;
     }
 
     return {
@@ -107,33 +231,43 @@ export class ExecutionUnit {
   }
 
   /**
-   * Add with overflow detection
-   */
-  private add(a: Word, b: Word): Word {
-    return (a + b) >>> 0; // Unsigned 32-bit
-  }
-
-  /**
-   * Subtract
-   */
-  private subtract(a: Word, b: Word): Word {
-    return (a - b) >>> 0;
-  }
-
-  /**
-   * Multiply (32-bit result, may overflow)
+   * Execute a single-precision float operation on register bit patterns
+   * FMA accumulates into rd (rd = rs1 * rs2 + rd, rounded once);
+   * ITOF, FTOI and FEXP only read rs1.
    */
-  private multiply(a: Word, b: Word): Word {
-    const result = a * b;
-    return result >>> 0; // Take lower 32 bits
+  executeFloat(
+    threadId: number,
+    op: string,
+    rs1: RegisterIndex,
+    rs2: RegisterIndex = 0,
+    rd: RegisterIndex = 0
+  ): Word {
+    return applyFloat(
+      op,
+      this.registerFile.read(threadId, rs1),
+      this.registerFile.read(threadId, rs2),
+      this.registerFile.read(threadId, rd)
+    );
   }
 
   /**
-   * Divide
+   * Compare two registers as floats
+   * `unordered` is set (and the others clear) if either is NaN
    */
-  private divide(a: Word, b: Word): Word {
-    if (b === 0) return 0;
-    return Math.floor((a | 0) / (b | 0)) >>> 0; // Signed division
+  compareFloat(threadId: number, rs1: RegisterIndex, rs2: RegisterIndex): {
+    equal: boolean;
+    less: boolean;
+    greater: boolean;
+    unordered: boolean;
+  } {
+    const a = bitsToFloat(this.registerFile.read(threadId, rs1));
+    const b = bitsToFloat(this.registerFile.read(threadId, rs2));
+    return {
+      equal: a === b, // +0 equals -0
+      less: a < b,
+      greater: a > b,
+      unordered: Number.isNaN(a) || Number.isNaN(b),
+    };
   }
 
   /**
@@ -2,6 +2,36 @@
  * GPU Core Components
  */
 
-export { RegisterFile } from './register-file';
-export { ThreadScheduler, type Warp } from './thread-scheduler';
-export { ExecutionUnit, type ALUResult } from './execution-unit';
+export {
+  RegisterFile,
+  BLOCK_IDX_REGISTER,
+  BLOCK_DIM_REGISTER,
+  THREAD_IDX_REGISTER,
+  SPECIAL_REGISTER_NAMES,
+  NUM_REGISTERS,
+  isReadOnlyRegister,
+  assertWritable,
+  NZP_NEGATIVE,
+  NZP_ZERO,
+  NZP_POSITIVE,
+  type RegisterFileSnapshot,
+} from './register-file';
+export {
+  ThreadScheduler,
+  type Warp,
+  type SimtStackEntry,
+  type WarpSnapshot,
+  type ThreadSchedulerSnapshot,
+} from './thread-scheduler';
+export {
+  RoundRobinPolicy,
+  LooseRoundRobinPolicy,
+  GreedyThenOldestPolicy,
+  TwoLevelPolicy,
+  createWarpSchedulingPolicy,
+  type WarpSchedulingPolicy,
+  type WarpSchedulingState,
+  type WarpSchedulingOptions,
+} from './warp-scheduling';
+export { computeReconvergencePoints } from './control-flow';
+export { ExecutionUnit, applyALU, applyFloat, bitsToFloat, floatToBits, type ALUResult } from './execution-unit';
@@ -2,66 +2,162 @@
  * Register File
  * Ported from tiny-gpu Verilog register file
  * Manages registers for each thread
+ *
+ * Storage is structure-of-arrays: one Uint32Array per register, indexed
+ * by thread id, so a warp's lanes are read and written in lockstep.
  */
 
 import type { Word, RegisterIndex, ThreadState } from '../types';
 
+/**
+ * Read-only thread identity registers (as in tiny-gpu)
+ */
+export const BLOCK_IDX_REGISTER = 13; // %blockIdx
+export const BLOCK_DIM_REGISTER = 14; // %blockDim
+export const THREAD_IDX_REGISTER = 15; // %threadIdx
+
+export const SPECIAL_REGISTER_NAMES: Record<number, string> = {
+  [BLOCK_IDX_REGISTER]: '%blockIdx',
+  [BLOCK_DIM_REGISTER]: '%blockDim',
+  [THREAD_IDX_REGISTER]: '%threadIdx',
+};
+
+/**
+ * NZP condition code bits
+ */
+export const NZP_NEGATIVE = 0b100;
+export const NZP_ZERO = 0b010;
+export const NZP_POSITIVE = 0b001;
+
+/**
+ * Registers R0-R15
+ */
+export const NUM_REGISTERS = 16;
+
+/**
+ * Whether a register is one of the read-only identity registers
+ */
+export function isReadOnlyRegister(reg: RegisterIndex): boolean {
+  return reg in SPECIAL_REGISTER_NAMES;
+}
+
+/**
+ * Throw if a register is one of the read-only identity registers
+ */
+export function assertWritable(reg: RegisterIndex): void {
+  if (isReadOnlyRegister(reg)) {
+    throw new Error(`Register R${reg} (${SPECIAL_REGISTER_NAMES[reg]}) is read-only`);
+  }
+}
+
+/**
+ * Plain-data copy of a register file (see RegisterFile.snapshot)
+ */
+export interface RegisterFileSnapshot {
+  registers: [number, Word[]][]; // [threadId, R0-R15]
+  nzp: [number, number][]; // [threadId, condition codes]
+}
+
 export class RegisterFile {
-  private registers: Map<number, Word[]>; // threadId -> registers
-  private readonly numRegisters = 16; // R0-R15
+  private registers: Uint32Array[] = []; // registers[reg][threadId]
+  private nzp: Uint8Array = new Uint8Array(0); // Condition codes by thread id
+  private initialized: Uint8Array = new Uint8Array(0); // 1 once a thread has registers
+  private capacity = 0;
 
   constructor() {
-    this.registers = new Map();
+    this.allocate(0);
   }
 
   /**
    * Initialize registers for a thread
    */
   initializeThread(threadId: number): void {
-    if (!this.registers.has(threadId)) {
-      this.registers.set(threadId, new Array(this.numRegisters).fill(0));
-    }
+    this.ensureCapacity(threadId + 1);
+    this.initialized[threadId] = 1;
   }
 
   /**
    * Read register value
    */
   read(threadId: number, reg: RegisterIndex): Word {
-    const threadRegs = this.registers.get(threadId);
-    if (!threadRegs) {
+    if (threadId >= this.capacity || !this.initialized[threadId]) {
       this.initializeThread(threadId);
       return 0;
     }
-    if (reg >= 0 && reg < this.numRegisters) {
-      return threadRegs[reg];
+    if (reg >= 0 && reg < NUM_REGISTERS) {
+      return this.registers[reg][threadId];
     }
     return 0;
   }
 
   /**
-   * Write register value
+   * Write register value (wrapped to 32 bits)
+   * Throws if the register is one of the read-only identity registers
    */
   write(threadId: number, reg: RegisterIndex, value: Word): void {
-    let threadRegs = this.registers.get(threadId);
-    if (!threadRegs) {
-      this.initializeThread(threadId);
-      threadRegs = this.registers.get(threadId)!;
-    }
-    if (reg >= 0 && reg < this.numRegisters) {
-      threadRegs[reg] = value;
+    assertWritable(reg);
+    this.initializeThread(threadId);
+    if (reg >= 0 && reg < NUM_REGISTERS) {
+      this.registers[reg][threadId] = value;
     }
   }
 
   /**
-   * Get all registers for a thread
+   * Set the read-only identity registers for a thread
+   */
+  setSpecialRegisters(
+    threadId: number,
+    blockIdx: number,
+    blockDim: number,
+    threadIdx: number
+  ): void {
+    this.initializeThread(threadId);
+    this.registers[BLOCK_IDX_REGISTER][threadId] = blockIdx;
+    this.registers[BLOCK_DIM_REGISTER][threadId] = blockDim;
+    this.registers[THREAD_IDX_REGISTER][threadId] = threadIdx;
+  }
+
+  /**
+   * Get a copy of all registers for a thread
    */
   getRegisters(threadId: number): Word[] {
-    const threadRegs = this.registers.get(threadId);
-    if (!threadRegs) {
-      this.initializeThread(threadId);
-      return this.registers.get(threadId)!;
+    this.initializeThread(threadId);
+    const values: Word[] = new Array(NUM_REGISTERS);
+    for (let reg = 0; reg < NUM_REGISTERS; reg++) {
+      values[reg] = this.registers[reg][threadId];
     }
-    return [...threadRegs];
+    return values;
+  }
+
+  /**
+   * Get the backing arrays, one per register, indexed by thread id
+   * For lockstep warp execution; the arrays are replaced when the file
+   * grows, so fetch them again after initializing threads.
+   */
+  getRegisterArrays(): readonly Uint32Array[] {
+    return this.registers;
+  }
+
+  /**
+   * Get the backing condition code array, indexed by thread id
+   */
+  getConditionCodes(): Uint8Array {
+    return this.nzp;
+  }
+
+  /**
+   * Read NZP condition codes (0 until the first CMP)
+   */
+  readNZP(threadId: number): number {
+    return threadId < this.capacity ? this.nzp[threadId] : 0;
+  }
+
+  /**
+   * Write NZP condition codes
+   */
+  writeNZP(threadId: number, nzp: number): void {
+    this.initializeThread(threadId);
+    this.nzp[threadId] = nzp & 0b111;
   }
 
   /**
@@ -69,19 +165,75 @@ export class RegisterFile {
    */
   updateThreadState(thread: ThreadState): void {
     thread.registers = this.getRegisters(thread.id);
+    thread.nzp = this.readNZP(thread.id);
+  }
+
+  /**
+   * Copy every thread's registers and condition codes
+   */
+  snapshot(): RegisterFileSnapshot {
+    const registers: [number, Word[]][] = [];
+    const nzp: [number, number][] = [];
+    for (let threadId = 0; threadId < this.capacity; threadId++) {
+      if (this.initialized[threadId]) {
+        registers.push([threadId, this.getRegisters(threadId)]);
+        nzp.push([threadId, this.nzp[threadId]]);
+      }
+    }
+    return { registers, nzp };
+  }
+
+  /**
+   * Replace all registers with a snapshot
+   */
+  restore(snapshot: RegisterFileSnapshot): void {
+    this.clearAll();
+    for (const [threadId, regs] of snapshot.registers) {
+      this.initializeThread(threadId);
+      regs.forEach((value, reg) => {
+        this.registers[reg][threadId] = value;
+      });
+    }
+    for (const [threadId, codes] of snapshot.nzp) {
+      this.writeNZP(threadId, codes);
+    }
   }
 
   /**
    * Clear registers for a thread
    */
   clearThread(threadId: number): void {
-    this.registers.delete(threadId);
+    if (threadId >= this.capacity) return;
+    for (const values of this.registers) {
+      values[threadId] = 0;
+    }
+    this.nzp[threadId] = 0;
+    this.initialized[threadId] = 0;
   }
 
   /**
    * Clear all registers
    */
   clearAll(): void {
-    this.registers.clear();
+    this.allocate(0);
+  }
+
+  /**
+   * Grow the arrays to hold at least `threads` thread ids
+   */
+  private ensureCapacity(threads: number): void {
+    if (threads <= this.capacity) return;
+    const previous = { registers: this.registers, nzp: this.nzp, initialized: this.initialized };
+    this.allocate(Math.max(threads, this.capacity * 2, 64));
+    previous.registers.forEach((values, reg) => this.registers[reg].set(values));
+    this.nzp.set(previous.nzp);
+    this.initialized.set(previous.initialized);
+  }
+
+  private allocate(capacity: number): void {
+    this.capacity = capacity;
+    this.registers = Array.from({ length: NUM_REGISTERS }, () => new Uint32Array(capacity));
+    this.nzp = new Uint8Array(capacity);
+    this.initialized = new Uint8Array(capacity);
   }
 }
@@ -1,96 +1,392 @@
 /**
  * Thread Scheduler
  * Ported from tiny-gpu Verilog thread scheduler
- * Manages thread execution and warp scheduling
+ * Manages thread execution, warp scheduling and SIMT divergence
  */
 
 import type { ThreadState, BlockState } from '../types';
+import {
+  LooseRoundRobinPolicy,
+  type WarpSchedulingPolicy,
+  type WarpSchedulingState,
+} from './warp-scheduling';
+
+/**
+ * One entry of a warp's SIMT reconvergence stack
+ * The top entry is the path currently executing
+ */
+export interface SimtStackEntry {
+  pc: number;
+  mask: number; // Bit i set = lane i (warp.threads[i]) follows this path
+  reconvergencePC: number; // Entry is popped when pc reaches this (-1 = never)
+}
 
 export interface Warp {
+  id: number; // Index in scheduling order
   threads: ThreadState[];
   active: boolean;
+  pc: number; // PC of the path currently executing (top of stack)
+  activeMask: number; // Lanes of the path currently executing
+  stack: SimtStackEntry[];
+  pendingJoin?: number; // Explicit reconvergence PC for the next conditional branch (JOIN)
+  pendingRequests: number; // Outstanding memory requests; warp stalls while > 0
+}
+
+/**
+ * Plain-data copy of a warp; threads are referenced by id
+ */
+export interface WarpSnapshot {
+  threadIds: number[];
+  active: boolean;
   pc: number;
+  activeMask: number;
+  stack: SimtStackEntry[];
+  pendingJoin?: number;
+  pendingRequests: number;
+}
+
+/**
+ * Plain-data copy of the scheduler (see ThreadScheduler.snapshot)
+ */
+export interface ThreadSchedulerSnapshot {
+  warps: WarpSnapshot[];
+  policy: WarpSchedulingState;
+  lastIssued: number;
+  cycle: number;
+  issues: number;
+  warpSwitches: number;
+  laneIssues: number;
+  laneSlots: number;
+  divergentBranches: number;
+  reconvergences: number;
+  maxStackDepth: number;
 }
 
+/**
+ * Maximum lanes per warp (active masks are 32-bit)
+ */
+const MAX_WARP_SIZE = 32;
+
 export class ThreadScheduler {
   private warps: Warp[] = [];
-  private readonly warpSize = 32; // Threads per warp
-  private currentWarpIndex = 0;
+  private readonly warpSize: number; // Threads per warp
+  private readonly policy: WarpSchedulingPolicy;
+  private lastIssued = -1; // Index of the warp issued most recently
   private cycle = 0;
+  private readonly isReady = (warp: Warp) => this.isWarpReady(warp);
+
+  // Issue statistics
+  private issues = 0;
+  private warpSwitches = 0;
+  private reconvergencePoints: number[] = [];
+
+  // Divergence statistics
+  private laneIssues = 0;
+  private laneSlots = 0;
+  private divergentBranches = 0;
+  private reconvergences = 0;
+  private maxStackDepth = 1;
+
+  constructor(warpSize: number = 32, policy: WarpSchedulingPolicy = new LooseRoundRobinPolicy()) {
+    if (!Number.isInteger(warpSize) || warpSize < 1 || warpSize > MAX_WARP_SIZE) {
+      throw new Error(`Warp size must be between 1 and ${MAX_WARP_SIZE}, got ${warpSize}`);
+    }
+    this.warpSize = warpSize;
+    this.policy = policy;
+  }
+
+  /**
+   * Set the reconvergence PC (immediate post-dominator) of every instruction
+   */
+  setReconvergencePoints(points: number[]): void {
+    this.reconvergencePoints = points;
+  }
 
   /**
    * Initialize threads from blocks
    */
   initializeBlocks(blocks: BlockState[]): void {
     this.warps = [];
-    this.currentWarpIndex = 0;
+    this.lastIssued = -1;
+    this.policy.reset();
+    this.addBlocks(blocks);
+  }
 
+  /**
+   * Add the warps of newly dispatched blocks after the existing ones
+   */
+  addBlocks(blocks: BlockState[]): void {
     for (const block of blocks) {
       // Split threads into warps
       for (let i = 0; i < block.threads.length; i += this.warpSize) {
         const warpThreads = block.threads.slice(i, i + this.warpSize);
+        const pc = warpThreads[0]?.pc || 0;
+        const mask = this.fullMask(warpThreads.length);
         this.warps.push({
+          id: this.warps.length,
           threads: warpThreads,
           active: true,
-          pc: warpThreads[0]?.pc || 0,
+          pc,
+          activeMask: mask,
+          stack: [{ pc, mask, reconvergencePC: -1 }],
+          pendingRequests: 0,
         });
       }
     }
   }
 
   /**
-   * Get next warp to execute
-   * Implements round-robin scheduling
+   * Get next warp to execute, as chosen by the scheduling policy
+   * Called once per cycle
    */
   getNextWarp(): Warp | null {
     if (this.warps.length === 0) {
       return null;
     }
 
-    // Round-robin scheduling
-    let attempts = 0;
-    while (attempts < this.warps.length) {
-      const warp = this.warps[this.currentWarpIndex];
-      this.currentWarpIndex = (this.currentWarpIndex + 1) % this.warps.length;
+    const index = this.policy.selectWarp(this.warps, this.isReady);
+    if (index === null) {
+      return null;
+    }
+    const warp = this.warps[index];
+    if (!warp || !this.isWarpReady(warp)) {
+      throw new Error(`Scheduling policy ${this.policy.name} selected warp ${index}, which cannot issue`);
+    }
 
-      if (warp.active && warp.threads.some((t) => t.active)) {
-        return warp;
+    this.issues++;
+    if (this.lastIssued >= 0 && index !== this.lastIssued) {
+      this.warpSwitches++;
+    }
+    this.lastIssued = index;
+    return warp;
+  }
+
+  /**
+   * Name of the warp scheduling policy
+   */
+  getPolicyName(): string {
+    return this.policy.name;
+  }
+
+  /**
+   * Get all warps in scheduling order
+   */
+  getWarps(): readonly Warp[] {
+    return this.warps;
+  }
+
+  /**
+   * Check if a warp can issue this cycle
+   */
+  isWarpReady(warp: Warp): boolean {
+    return warp.active && warp.pendingRequests === 0 && this.getIssueMask(warp) !== 0;
+  }
+
+  /**
+   * Check if the warp is executing a divergent path
+   */
+  isWarpDiverged(warp: Warp): boolean {
+    return warp.stack.length > 1;
+  }
+
+  /**
+   * Get the threads that execute the warp's next instruction: lanes of the
+   * current path that have not returned or parked at a barrier
+   */
+  getActiveThreads(warp: Warp): ThreadState[] {
+    const mask = this.getIssueMask(warp);
+    return warp.threads.filter((_, lane) => (mask & (1 << lane)) !== 0);
+  }
+
+  /**
+   * Lanes of getActiveThreads as a bit mask (bit i = warp.threads[i])
+   */
+  getIssueMask(warp: Warp): number {
+    let mask = 0;
+    for (let lane = 0; lane < warp.threads.length; lane++) {
+      const thread = warp.threads[lane];
+      if ((warp.activeMask & (1 << lane)) !== 0 && thread.active && !thread.waitingAtBarrier) {
+        mask |= 1 << lane;
       }
+    }
+    return mask >>> 0;
+  }
 
-      attempts++;
+  /**
+   * Advance a warp after `issuedLanes` lanes executed the instruction at
+   * the top-of-stack PC. `nextPCs[lane]` is the next PC of each lane set
+   * in `runningMask`, the lanes that are still running.
+   * Lanes that disagree split the current path: the current entry moves
+   * to the reconvergence PC and one entry per target is pushed (the
+   * taken path runs first). Paths are popped when they reach their
+   * reconvergence PC or have no running lanes left.
+   */
+  advanceWarp(warp: Warp, issuedLanes: number, nextPCs: ArrayLike<number>, runningMask: number): void {
+    const top = warp.stack[warp.stack.length - 1];
+    const fallThroughPC = top.pc + 1;
+    this.laneIssues += issuedLanes;
+    this.laneSlots += warp.threads.length;
+
+    // Common case: every running lane continues at the same PC
+    let uniformPC: number | null = null;
+    let uniform = true;
+    for (let lane = 0; lane < warp.threads.length && uniform; lane++) {
+      if ((runningMask & (1 << lane)) === 0) continue;
+      if (uniformPC === null) {
+        uniformPC = nextPCs[lane];
+      } else if (nextPCs[lane] !== uniformPC) {
+        uniform = false;
+      }
+    }
+
+    if (uniform && uniformPC !== null) {
+      top.pc = uniformPC;
+    } else if (!uniform) {
+      // Group lanes by next PC
+      const groups = new Map<number, number>();
+      for (let lane = 0; lane < warp.threads.length; lane++) {
+        if ((runningMask & (1 << lane)) !== 0) {
+          const nextPC = nextPCs[lane];
+          groups.set(nextPC, ((groups.get(nextPC) ?? 0) | (1 << lane)) >>> 0);
+        }
+      }
+
+      const reconvergencePC =
+        warp.pendingJoin ?? this.reconvergencePoints[top.pc] ?? -1;
+      warp.pendingJoin = undefined;
+      this.divergentBranches++;
+
+      top.pc = reconvergencePC;
+      // Fall-through pushed first so the taken branch runs first
+      const targets = [...groups.entries()].sort((a, b) =>
+        a[0] === fallThroughPC ? -1 : b[0] === fallThroughPC ? 1 : a[0] - b[0]
+      );
+      for (const [pc, mask] of targets) {
+        if (pc !== reconvergencePC) {
+          warp.stack.push({ pc, mask, reconvergencePC });
+        }
+      }
+      this.maxStackDepth = Math.max(this.maxStackDepth, warp.stack.length);
     }
 
-    return null;
+    this.popFinishedPaths(warp);
+    this.syncWarpState(warp);
   }
 
   /**
-   * Check if all threads in a warp have the same PC
-   * (no divergence)
+   * Pop paths that reached their reconvergence PC or have no running lanes
    */
-  isWarpDiverged(warp: Warp): boolean {
-    if (warp.threads.length === 0) return false;
+  private popFinishedPaths(warp: Warp): void {
+    while (warp.stack.length > 0) {
+      const top = warp.stack[warp.stack.length - 1];
+      let running = false;
+      for (let lane = 0; lane < warp.threads.length && !running; lane++) {
+        running = (top.mask & (1 << lane)) !== 0 && warp.threads[lane].active;
+      }
+      if (!running) {
+        warp.stack.pop();
+      } else if (warp.stack.length > 1 && top.pc === top.reconvergencePC) {
+        warp.stack.pop();
+        // Count once per divergence: when the last path returns to the join entry
+        if (warp.stack[warp.stack.length - 1].pc === top.reconvergencePC) {
+          this.reconvergences++;
+        }
+      } else {
+        break;
+      }
+    }
 
-    const firstPC = warp.threads[0].pc;
-    return warp.threads.some((t) => t.active && t.pc !== firstPC);
+    if (warp.stack.length === 0) {
+      warp.active = false;
+    }
   }
 
   /**
-   * Get active threads from warp
+   * Copy the top-of-stack PC and mask onto the warp and its threads
    */
-  getActiveThreads(warp: Warp): ThreadState[] {
-    return warp.threads.filter((t) => t.active);
+  private syncWarpState(warp: Warp): void {
+    const top = warp.stack[warp.stack.length - 1];
+    if (!top) {
+      warp.activeMask = 0;
+      return;
+    }
+    warp.pc = top.pc;
+    warp.activeMask = top.mask;
+    for (let lane = 0; lane < warp.threads.length; lane++) {
+      const thread = warp.threads[lane];
+      if ((top.mask & (1 << lane)) !== 0 && thread.active) {
+        thread.pc = top.pc;
+      }
+    }
+  }
+
+  /**
+   * Set the warp's explicit reconvergence PC for its next conditional
+   * branch, or clear it (undefined) once that branch has executed
+   */
+  setJoinPoint(warp: Warp, pc: number | undefined): void {
+    warp.pendingJoin = pc;
+  }
+
+  /**
+   * Release a block's barrier once every thread still running has arrived
+   * Returns true if the barrier was released
+   */
+  releaseBarrier(block: BlockState): boolean {
+    const running = block.threads.filter((t) => t.active);
+    if (running.length === 0 || !running.every((t) => t.waitingAtBarrier)) {
+      return false;
+    }
+    for (const thread of running) {
+      thread.waitingAtBarrier = false;
+    }
+    return true;
+  }
+
+  /**
+   * Check whether a block's barrier can never be released: some threads
+   * wait at SYNC, but none of the block's warps can issue or is waiting
+   * on memory (e.g. only one side of a divergent branch reached the SYNC)
+   */
+  isBarrierDeadlocked(block: BlockState): boolean {
+    if (!block.threads.some((t) => t.active && t.waitingAtBarrier)) {
+      return false;
+    }
+    return this.warps.every(
+      (warp) =>
+        warp.threads[0]?.blockId !== block.id ||
+        (warp.pendingRequests === 0 && !this.isWarpReady(warp))
+    );
+  }
+
+  /**
+   * Stop the threads parked at a deadlocked barrier so the rest of their
+   * warps can run on; returns the stopped threads
+   */
+  retireBarrierThreads(block: BlockState): ThreadState[] {
+    const parked = block.threads.filter((t) => t.active && t.waitingAtBarrier);
+    for (const thread of parked) {
+      thread.active = false;
+      thread.waitingAtBarrier = false;
+    }
+    for (const warp of this.warps) {
+      if (warp.threads[0]?.blockId === block.id) {
+        this.popFinishedPaths(warp);
+        this.syncWarpState(warp);
+      }
+    }
+    return parked;
   }
 
   /**
    * Update warp PC
    */
   updateWarpPC(warp: Warp, newPC: number): void {
-    warp.pc = newPC;
-    for (const thread of warp.threads) {
-      if (thread.active) {
-        thread.pc = newPC;
-      }
+    const top = warp.stack[warp.stack.length - 1];
+    if (top) {
+      top.pc = newPC;
     }
+    this.syncWarpState(warp);
   }
 
   /**
@@ -111,7 +407,9 @@ export class ThreadScheduler {
    */
   isComplete(): boolean {
     return this.warps.every(
-      (warp) => !warp.active || warp.threads.every((t) => !t.active)
+      (warp) =>
+        warp.pendingRequests === 0 &&
+        (!warp.active || warp.threads.every((t) => !t.active))
     );
   }
 
@@ -123,10 +421,26 @@ export class ThreadScheduler {
     activeWarps: number;
     totalThreads: number;
     activeThreads: number;
+    stalledWarps: number;
+    barrierWarps: number;
+    divergedWarps: number;
+    divergentBranches: number;
+    reconvergences: number;
+    maxStackDepth: number;
+    simdEfficiency: number; // Lanes that executed / lanes available, over all issues
+    policy: string;
+    issues: number; // Cycles in which a warp issued
+    warpSwitches: number; // Issues from a different warp than the previous one
+    issueRate: number; // Issues per cycle
   } {
     const activeWarps = this.warps.filter(
       (w) => w.active && w.threads.some((t) => t.active)
     ).length;
+    const stalledWarps = this.warps.filter((w) => w.pendingRequests > 0).length;
+    const barrierWarps = this.warps.filter((w) =>
+      w.threads.some((t) => t.active && t.waitingAtBarrier)
+    ).length;
+    const divergedWarps = this.warps.filter((w) => this.isWarpDiverged(w)).length;
     const totalThreads = this.warps.reduce(
       (sum, w) => sum + w.threads.length,
       0
@@ -141,16 +455,95 @@ export class ThreadScheduler {
       activeWarps,
       totalThreads,
       activeThreads,
+      stalledWarps,
+      barrierWarps,
+      divergedWarps,
+      divergentBranches: this.divergentBranches,
+      reconvergences: this.reconvergences,
+      maxStackDepth: this.maxStackDepth,
+      simdEfficiency: this.laneSlots > 0 ? this.laneIssues / this.laneSlots : 0,
+      policy: this.policy.name,
+      issues: this.issues,
+      warpSwitches: this.warpSwitches,
+      issueRate: this.cycle > 0 ? this.issues / this.cycle : 0,
     };
   }
 
+  /**
+   * Copy warp state, the policy's state and statistics
+   */
+  snapshot(): ThreadSchedulerSnapshot {
+    return {
+      warps: this.warps.map((warp) => ({
+        threadIds: warp.threads.map((t) => t.id),
+        active: warp.active,
+        pc: warp.pc,
+        activeMask: warp.activeMask,
+        stack: warp.stack.map((entry) => ({ ...entry })),
+        pendingJoin: warp.pendingJoin,
+        pendingRequests: warp.pendingRequests,
+      })),
+      policy: this.policy.snapshot(),
+      lastIssued: this.lastIssued,
+      cycle: this.cycle,
+      issues: this.issues,
+      warpSwitches: this.warpSwitches,
+      laneIssues: this.laneIssues,
+      laneSlots: this.laneSlots,
+      divergentBranches: this.divergentBranches,
+      reconvergences: this.reconvergences,
+      maxStackDepth: this.maxStackDepth,
+    };
+  }
+
+  /**
+   * Replace scheduler state with a snapshot
+   * `threads` resolves the snapshot's thread ids to live thread objects
+   */
+  restore(snapshot: ThreadSchedulerSnapshot, threads: Map<number, ThreadState>): void {
+    this.warps = snapshot.warps.map((warp, id) => ({
+      id,
+      threads: warp.threadIds.map((id) => {
+        const thread = threads.get(id);
+        if (!thread) {
+          throw new Error(`Snapshot references unknown thread ${id}`);
+        }
+        return thread;
+      }),
+      active: warp.active,
+      pc: warp.pc,
+      activeMask: warp.activeMask,
+      stack: warp.stack.map((entry) => ({ ...entry })),
+      pendingJoin: warp.pendingJoin,
+      pendingRequests: warp.pendingRequests,
+    }));
+    this.policy.restore(snapshot.policy);
+    this.lastIssued = snapshot.lastIssued;
+    this.cycle = snapshot.cycle;
+    this.issues = snapshot.issues;
+    this.warpSwitches = snapshot.warpSwitches;
+    this.laneIssues = snapshot.laneIssues;
+    this.laneSlots = snapshot.laneSlots;
+    this.divergentBranches = snapshot.divergentBranches;
+    this.reconvergences = snapshot.reconvergences;
+    this.maxStackDepth = snapshot.maxStackDepth;
+  }
+
   /**
    * Reset scheduler
    */
   reset(): void {
     this.warps = [];
-    this.currentWarpIndex = 0;
+    this.policy.reset();
+    this.lastIssued = -1;
     this.cycle = 0;
+    this.issues = 0;
+    this.warpSwitches = 0;
+    this.laneIssues = 0;
+    this.laneSlots = 0;
+    this.divergentBranches = 0;
+    this.reconvergences = 0;
+    this.maxStackDepth = 1;
   }
 
   /**
@@ -166,4 +559,11 @@ export class ThreadScheduler {
   getCycle(): number {
     return this.cycle;
   }
+
+  /**
+   * Mask with the low `lanes` bits set
+   */
+  private fullMask(lanes: number): number {
+    return lanes >= 32 ? 0xffffffff : ((1 << lanes) - 1) >>> 0;
+  }
 }
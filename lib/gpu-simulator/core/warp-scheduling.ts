@@ -0,0 +1,276 @@
+/**
+ * Warp Scheduling Policies
+ * Decide which ready warp a core issues each cycle
+ */
+
+import type { WarpSchedulingPolicyName } from '../types';
+import type { Warp } from './thread-scheduler';
+
+/**
+ * Plain-data policy state, stored in scheduler snapshots
+ */
+export type WarpSchedulingState = Record<string, number | number[]>;
+
+export interface WarpSchedulingPolicy {
+  readonly name: string;
+  /**
+   * Index of the warp to issue this cycle, or null to issue nothing
+   * Called once per cycle; `warps` only grows between resets.
+   */
+  selectWarp(warps: readonly Warp[], isReady: (warp: Warp) => boolean): number | null;
+  reset(): void;
+  snapshot(): WarpSchedulingState;
+  restore(state: WarpSchedulingState): void;
+}
+
+export interface WarpSchedulingOptions {
+  activeWarps?: number; // Active pool size of the two-level policy (default 4)
+}
+
+/**
+ * Check whether a warp will never issue again
+ */
+function isWarpFinished(warp: Warp): boolean {
+  return !warp.active || warp.threads.every((t) => !t.active);
+}
+
+/**
+ * Strict round-robin: each cycle belongs to the next unfinished warp,
+ * which issues only if it is ready
+ */
+export class RoundRobinPolicy implements WarpSchedulingPolicy {
+  readonly name: WarpSchedulingPolicyName = 'round-robin';
+  private next = 0;
+
+  /**
+   * Give the cycle to the next unfinished warp
+   */
+  selectWarp(warps: readonly Warp[], isReady: (warp: Warp) => boolean): number | null {
+    for (let i = 0; i < warps.length; i++) {
+      const index = (this.next + i) % warps.length;
+      if (!isWarpFinished(warps[index])) {
+        this.next = (index + 1) % warps.length;
+        return isReady(warps[index]) ? index : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start again from the first warp
+   */
+  reset(): void {
+    this.next = 0;
+  }
+
+  /**
+   * Copy the rotation position
+   */
+  snapshot(): WarpSchedulingState {
+    return { next: this.next };
+  }
+
+  /**
+   * Restore the rotation position
+   */
+  restore(state: WarpSchedulingState): void {
+    this.next = state.next as number;
+  }
+}
+
+/**
+ * Loose round-robin: rotate from the warp after the last one examined,
+ * skipping warps that are not ready
+ */
+export class LooseRoundRobinPolicy implements WarpSchedulingPolicy {
+  readonly name: WarpSchedulingPolicyName = 'loose-round-robin';
+  private next = 0;
+
+  /**
+   * Issue the first ready warp in rotation order
+   */
+  selectWarp(warps: readonly Warp[], isReady: (warp: Warp) => boolean): number | null {
+    for (let attempts = 0; attempts < warps.length; attempts++) {
+      const index = this.next % warps.length;
+      this.next = (index + 1) % warps.length;
+      if (isReady(warps[index])) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start again from the first warp
+   */
+  reset(): void {
+    this.next = 0;
+  }
+
+  /**
+   * Copy the rotation position
+   */
+  snapshot(): WarpSchedulingState {
+    return { next: this.next };
+  }
+
+  /**
+   * Restore the rotation position
+   */
+  restore(state: WarpSchedulingState): void {
+    this.next = state.next as number;
+  }
+}
+
+/**
+ * Greedy-then-oldest: keep issuing the last warp while it is ready,
+ * then switch to the oldest ready warp (lowest index, i.e. launched first)
+ */
+export class GreedyThenOldestPolicy implements WarpSchedulingPolicy {
+  readonly name: WarpSchedulingPolicyName = 'greedy-then-oldest';
+  private last = -1;
+
+  /**
+   * Issue the greedy warp, or the oldest ready one
+   */
+  selectWarp(warps: readonly Warp[], isReady: (warp: Warp) => boolean): number | null {
+    if (this.last >= 0 && this.last < warps.length && isReady(warps[this.last])) {
+      return this.last;
+    }
+    const index = warps.findIndex(isReady);
+    if (index < 0) {
+      return null;
+    }
+    this.last = index;
+    return index;
+  }
+
+  /**
+   * Forget the greedy warp
+   */
+  reset(): void {
+    this.last = -1;
+  }
+
+  /**
+   * Copy the greedy warp
+   */
+  snapshot(): WarpSchedulingState {
+    return { last: this.last };
+  }
+
+  /**
+   * Restore the greedy warp
+   */
+  restore(state: WarpSchedulingState): void {
+    this.last = state.last as number;
+  }
+}
+
+/**
+ * Two-level: loose round-robin over an active pool of at most
+ * `activeWarps` warps. Warps that cannot issue (waiting on memory or a
+ * barrier) move to the back of the pending pool, and ready pending warps
+ * fill free active slots in FIFO order.
+ */
+export class TwoLevelPolicy implements WarpSchedulingPolicy {
+  readonly name: WarpSchedulingPolicyName = 'two-level';
+  private readonly activeWarps: number;
+  private active: number[] = []; // Rotation order; the front issues next
+  private pending: number[] = [];
+  private known = 0; // Warps seen so far
+
+  constructor(activeWarps: number = 4) {
+    if (!Number.isInteger(activeWarps) || activeWarps < 1) {
+      throw new Error(`activeWarps must be a positive integer, got ${activeWarps}`);
+    }
+    this.activeWarps = activeWarps;
+  }
+
+  /**
+   * Swap stalled active warps for ready pending ones, then issue the
+   * front of the active pool
+   */
+  selectWarp(warps: readonly Warp[], isReady: (warp: Warp) => boolean): number | null {
+    // Newly added warps join the pending pool
+    for (; this.known < warps.length; this.known++) {
+      this.pending.push(this.known);
+    }
+
+    const demoted: number[] = [];
+    this.active = this.active.filter((index) => {
+      if (isReady(warps[index])) {
+        return true;
+      }
+      if (!isWarpFinished(warps[index])) {
+        demoted.push(index);
+      }
+      return false;
+    });
+    this.pending.push(...demoted);
+
+    this.pending = this.pending.filter((index) => {
+      if (isWarpFinished(warps[index])) {
+        return false;
+      }
+      if (this.active.length < this.activeWarps && isReady(warps[index])) {
+        this.active.push(index);
+        return false;
+      }
+      return true;
+    });
+
+    const index = this.active.shift();
+    if (index === undefined) {
+      return null;
+    }
+    this.active.push(index);
+    return index;
+  }
+
+  /**
+   * Empty both pools
+   */
+  reset(): void {
+    this.active = [];
+    this.pending = [];
+    this.known = 0;
+  }
+
+  /**
+   * Copy both pools
+   */
+  snapshot(): WarpSchedulingState {
+    return { active: [...this.active], pending: [...this.pending], known: this.known };
+  }
+
+  /**
+   * Restore both pools
+   */
+  restore(state: WarpSchedulingState): void {
+    this.active = [...(state.active as number[])];
+    this.pending = [...(state.pending as number[])];
+    this.known = state.known as number;
+  }
+}
+
+/**
+ * Create a built-in policy by name
+ */
+export function createWarpSchedulingPolicy(
+  name: WarpSchedulingPolicyName = 'loose-round-robin',
+  options: WarpSchedulingOptions = {}
+): WarpSchedulingPolicy {
+  switch (name) {
+    case 'round-robin':
+      return new RoundRobinPolicy();
+    case 'loose-round-robin':
+      return new LooseRoundRobinPolicy();
+    case 'greedy-then-oldest':
+      return new GreedyThenOldestPolicy();
+    case 'two-level':
+      return new TwoLevelPolicy(options.activeWarps);
+    default:
+      throw new Error(`Unknown warp scheduling policy: ${name}`);
+  }
+}
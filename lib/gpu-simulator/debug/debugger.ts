@@ -0,0 +1,613 @@
+/**
+ * Simulator Debugger
+ * Breakpoints, stepping, watches and reverse stepping on top of the
+ * execution engine
+ */
+
+import type { Word, Address, ThreadState } from '../types';
+import { SPECIAL_REGISTER_NAMES } from '../core/register-file';
+import type { Warp } from '../core/thread-scheduler';
+import type {
+  ExecutionEngine,
+  ExecutionObserver,
+  EngineCheckpoint,
+  LaunchOptions,
+  LaunchResult,
+} from '../execution/execution-engine';
+
+/**
+ * Where to stop
+ * - 'instruction': a thread reaches `pc` (any PC if omitted), optionally
+ *   limited to one block or thread; at least one field must be given
+ * - 'memory-write': a store to a global memory address is issued
+ */
+export type BreakpointSpec =
+  | { kind: 'instruction'; pc?: Address; blockId?: number; threadId?: number }
+  | { kind: 'memory-write'; address: Address };
+
+export type Breakpoint = BreakpointSpec & { id: number; enabled: boolean };
+
+export interface BreakpointHit {
+  breakpoint: Breakpoint;
+  threadIds: number[]; // Threads that reached the PC or issued the store
+  address?: Address; // Address written (memory-write breakpoints)
+}
+
+export interface WatchValue {
+  id: number;
+  expression: string;
+  value: Word | null; // null if the location does not exist in this launch
+  changed: boolean; // Differs from the value at the previous stop
+}
+
+export type StopReason = 'step' | 'breakpoint' | 'completed' | 'max-cycles' | 'fault';
+
+/**
+ * Why and where execution stopped
+ */
+export interface StopEvent {
+  reason: StopReason;
+  cycle: number;
+  hits: BreakpointHit[];
+  watches: WatchValue[];
+}
+
+/**
+ * What happened in one recorded cycle
+ */
+export interface CycleRecord {
+  cycle: number;
+  warpId: number | null; // Warp that issued, or null if the cycle stalled
+  pc: Address | null;
+  opcode: string | null;
+  threadIds: number[]; // Threads that executed the instruction
+  memoryWrites: { address: Address; data: Word; threadId: number }[];
+}
+
+export interface DebuggerOptions {
+  checkpointInterval?: number; // Cycles between checkpoints used for reverse stepping (default 64)
+  maxCheckpoints?: number; // Oldest checkpoints are dropped beyond this (default 256)
+}
+
+/**
+ * Location a watch expression reads
+ */
+type WatchTarget =
+  | { kind: 'memory'; address: Address }
+  | { kind: 'register'; threadId: number; register: number }
+  | { kind: 'pc'; threadId: number }
+  | { kind: 'nzp'; threadId: number }
+  | { kind: 'shared'; blockId: number; address: Address };
+
+interface Watch {
+  id: number;
+  expression: string;
+  target: WatchTarget;
+  lastValue: Word | null;
+}
+
+const NUMBER = '(0x[0-9a-f]+|\\d+)';
+const WATCH_PATTERNS: [RegExp, (m: RegExpMatchArray) => WatchTarget][] = [
+  [
+    new RegExp(`^mem(?:ory)?\\[${NUMBER}\\]$`, 'i'),
+    (m) => ({ kind: 'memory', address: Number(m[1]) }),
+  ],
+  [
+    new RegExp(`^block\\[${NUMBER}\\]\\.shared\\[${NUMBER}\\]$`, 'i'),
+    (m) => ({ kind: 'shared', blockId: Number(m[1]), address: Number(m[2]) }),
+  ],
+  [
+    new RegExp(`^thread\\[${NUMBER}\\]\\.r(\\d+)$`, 'i'),
+    (m) => ({ kind: 'register', threadId: Number(m[1]), register: Number(m[2]) }),
+  ],
+  [
+    new RegExp(`^thread\\[${NUMBER}\\]\\.(%\\w+)$`, 'i'),
+    (m) => {
+      const entry = Object.entries(SPECIAL_REGISTER_NAMES).find(
+        ([, name]) => name.toLowerCase() === m[2].toLowerCase()
+      );
+      if (!entry) {
+        throw new Error(`Unknown register ${m[2]}`);
+      }
+      return { kind: 'register', threadId: Number(m[1]), register: Number(entry[0]) };
+    },
+  ],
+  [
+    new RegExp(`^thread\\[${NUMBER}\\]\\.pc$`, 'i'),
+    (m) => ({ kind: 'pc', threadId: Number(m[1]) }),
+  ],
+  [
+    new RegExp(`^thread\\[${NUMBER}\\]\\.nzp$`, 'i'),
+    (m) => ({ kind: 'nzp', threadId: Number(m[1]) }),
+  ],
+];
+
+/**
+ * Parse a watch expression:
+ *   mem[addr]                  global memory word
+ *   block[b].shared[addr]      shared memory word of a block
+ *   thread[t].R3, thread[t].%threadIdx, thread[t].pc, thread[t].nzp
+ * Numbers are decimal or 0x-prefixed hex.
+ */
+function parseWatchExpression(expression: string): WatchTarget {
+  const text = expression.replace(/\s+/g, '');
+  for (const [pattern, build] of WATCH_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const target = build(match);
+      if (target.kind === 'register' && target.register > 15) {
+        throw new Error(`Register R${target.register} does not exist (R0-R15)`);
+      }
+      return target;
+    }
+  }
+  throw new Error(`Invalid watch expression "${expression}"`);
+}
+
+export class SimulatorDebugger {
+  private engine: ExecutionEngine;
+  private readonly checkpointInterval: number;
+  private readonly maxCheckpoints: number;
+  private breakpoints: Breakpoint[] = [];
+  private watches: Watch[] = [];
+  private nextBreakpointId = 1;
+  private nextWatchId = 1;
+  private checkpoints: Map<number, EngineCheckpoint> = new Map();
+  private history: CycleRecord[] = [];
+  private launched = false;
+  private threadBlocks: Map<number, number> = new Map(); // Block of each thread of the launch
+
+  // Per-cycle bookkeeping filled in by the observer
+  private current: CycleRecord | null = null;
+  private lastPCs: Map<number, Address> = new Map();
+  private observer: ExecutionObserver;
+
+  constructor(engine: ExecutionEngine, options: DebuggerOptions = {}) {
+    this.engine = engine;
+    this.checkpointInterval = options.checkpointInterval ?? 64;
+    this.maxCheckpoints = options.maxCheckpoints ?? 256;
+    if (!Number.isInteger(this.checkpointInterval) || this.checkpointInterval < 1) {
+      throw new Error(`checkpointInterval must be a positive integer, got ${this.checkpointInterval}`);
+    }
+    if (!Number.isInteger(this.maxCheckpoints) || this.maxCheckpoints < 1) {
+      throw new Error(`maxCheckpoints must be a positive integer, got ${this.maxCheckpoints}`);
+    }
+
+    this.observer = {
+      onInstruction: (event) => {
+        const record = this.currentRecord(event.cycle);
+        if (record.warpId === null) {
+          record.warpId = event.warpId;
+          record.pc = event.pc;
+          record.opcode = event.instruction.opcode;
+        }
+        record.threadIds.push(event.thread.id);
+      },
+      onMemoryAccess: (event) => {
+        if (event.write) {
+          this.currentRecord(event.cycle).memoryWrites.push({
+            address: event.address,
+            data: event.data ?? 0,
+            threadId: event.thread.id,
+          });
+        }
+      },
+      onCycleEnd: (cycle) => {
+        this.history.push(this.currentRecord(cycle));
+        this.current = null;
+      },
+    };
+    this.engine.addObserver(this.observer);
+  }
+
+  /**
+   * Set up a kernel launch and stop before its first cycle
+   * Every thread arrives at its first PC, so breakpoints there hit now.
+   * Breakpoints and watches are kept across launches.
+   */
+  launch(options: LaunchOptions): StopEvent {
+    this.engine.prepareLaunch(options);
+    this.launched = true;
+    this.history = [];
+    this.current = null;
+    this.checkpoints = new Map([[0, this.engine.createCheckpoint()]]);
+    this.threadBlocks = new Map(
+      this.engine.getWarps().flatMap((warp) => warp.threads.map((t) => [t.id, t.blockId] as const))
+    );
+    this.lastPCs = new Map();
+    const hits = this.checkBreakpoints({
+      cycle: 0,
+      warpId: null,
+      pc: null,
+      opcode: null,
+      threadIds: [],
+      memoryWrites: [],
+    });
+    this.lastPCs = this.engine.getThreadPCs();
+    return this.stop(hits.length > 0 ? 'breakpoint' : 'step', hits);
+  }
+
+  /**
+   * Stop observing the engine
+   */
+  detach(): void {
+    this.engine.removeObserver(this.observer);
+  }
+
+  /**
+   * Add an enabled breakpoint
+   */
+  addBreakpoint(spec: BreakpointSpec): Breakpoint {
+    if (
+      spec.kind === 'instruction' &&
+      spec.pc === undefined &&
+      spec.blockId === undefined &&
+      spec.threadId === undefined
+    ) {
+      throw new Error('Instruction breakpoints need a pc, blockId or threadId');
+    }
+    const breakpoint: Breakpoint = { ...spec, id: this.nextBreakpointId++, enabled: true };
+    this.breakpoints.push(breakpoint);
+    return breakpoint;
+  }
+
+  /**
+   * Remove a breakpoint
+   */
+  removeBreakpoint(id: number): void {
+    this.breakpoints = this.breakpoints.filter((bp) => bp.id !== id);
+  }
+
+  /**
+   * Enable or disable a breakpoint without removing it
+   */
+  setBreakpointEnabled(id: number, enabled: boolean): void {
+    const breakpoint = this.breakpoints.find((bp) => bp.id === id);
+    if (!breakpoint) {
+      throw new Error(`No breakpoint with id ${id}`);
+    }
+    breakpoint.enabled = enabled;
+  }
+
+  /**
+   * Get all breakpoints
+   */
+  getBreakpoints(): Breakpoint[] {
+    return this.breakpoints.map((bp) => ({ ...bp }));
+  }
+
+  /**
+   * Watch a register or memory location (see parseWatchExpression for syntax)
+   * Returns the watch id.
+   */
+  addWatch(expression: string): number {
+    const target = parseWatchExpression(expression);
+    const watch: Watch = { id: this.nextWatchId++, expression, target, lastValue: null };
+    watch.lastValue = this.readTarget(target);
+    this.watches.push(watch);
+    return watch.id;
+  }
+
+  /**
+   * Remove a watch
+   */
+  removeWatch(id: number): void {
+    this.watches = this.watches.filter((watch) => watch.id !== id);
+  }
+
+  /**
+   * Current watch values; `changed` compares with the previous stop
+   */
+  getWatches(): WatchValue[] {
+    return this.watches.map((watch) => {
+      const value = this.readTarget(watch.target);
+      return { id: watch.id, expression: watch.expression, value, changed: value !== watch.lastValue };
+    });
+  }
+
+  /**
+   * Evaluate a one-off watch expression
+   */
+  evaluate(expression: string): Word | null {
+    return this.readTarget(parseWatchExpression(expression));
+  }
+
+  /**
+   * Execute exactly one cycle
+   */
+  stepCycle(): StopEvent {
+    this.requireLaunch();
+    if (this.engine.isFinished()) {
+      return this.stop(this.finishReason(), []);
+    }
+    const hits = this.runCycle();
+    return this.stop(hits.length > 0 ? 'breakpoint' : 'step', hits);
+  }
+
+  /**
+   * Run until the next cycle in which an instruction issues, optionally
+   * only counting instructions of one block or thread
+   */
+  stepInstruction(filter: { blockId?: number; threadId?: number } = {}): StopEvent {
+    this.requireLaunch();
+    while (!this.engine.isFinished()) {
+      const hits = this.runCycle();
+      const record = this.history[this.history.length - 1];
+      if (hits.length > 0) {
+        return this.stop('breakpoint', hits);
+      }
+      if (this.executedBy(record, filter)) {
+        return this.stop('step', []);
+      }
+    }
+    return this.stop(this.finishReason(), []);
+  }
+
+  /**
+   * Run until a breakpoint hits or the kernel finishes
+   */
+  continue(): StopEvent {
+    this.requireLaunch();
+    while (!this.engine.isFinished()) {
+      const hits = this.runCycle();
+      if (hits.length > 0) {
+        return this.stop('breakpoint', hits);
+      }
+    }
+    return this.stop(this.finishReason(), []);
+  }
+
+  /**
+   * Go back one cycle
+   */
+  reverseStepCycle(): StopEvent {
+    this.requireLaunch();
+    if (this.engine.getCycle() === 0) {
+      return this.stop('step', []);
+    }
+    this.goToCycle(this.engine.getCycle() - 1);
+    return this.stop('step', []);
+  }
+
+  /**
+   * Go back to just before the most recent cycle in which an instruction
+   * issued (optionally of one block or thread)
+   */
+  reverseStepInstruction(filter: { blockId?: number; threadId?: number } = {}): StopEvent {
+    this.requireLaunch();
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const record = this.history[i];
+      if (this.executedBy(record, filter)) {
+        this.goToCycle(record.cycle);
+        return this.stop('step', []);
+      }
+    }
+    this.goToCycle(this.earliestCycle());
+    return this.stop('step', []);
+  }
+
+  /**
+   * Move to the start of any cycle, forwards or backwards
+   * Going back restores the nearest earlier checkpoint and replays from it.
+   * Breakpoints are not checked on the way.
+   */
+  goToCycle(target: number): void {
+    this.requireLaunch();
+    if (!Number.isInteger(target) || target < 0) {
+      throw new Error(`Cycle must be a non-negative integer, got ${target}`);
+    }
+
+    if (target < this.engine.getCycle()) {
+      const start = Math.max(...[...this.checkpoints.keys()].filter((cycle) => cycle <= target));
+      if (!Number.isFinite(start)) {
+        throw new Error(
+          `Cycle ${target} is older than the earliest checkpoint (cycle ${this.earliestCycle()})`
+        );
+      }
+      this.engine.restoreCheckpoint(this.checkpoints.get(start)!);
+      this.history = this.history.filter((record) => record.cycle < start);
+      this.current = null;
+    }
+
+    while (this.engine.getCycle() < target && !this.engine.isFinished()) {
+      this.runCycle();
+    }
+    this.lastPCs = this.engine.getThreadPCs();
+  }
+
+  /**
+   * Get the current cycle
+   */
+  getCycle(): number {
+    return this.engine.getCycle();
+  }
+
+  /**
+   * Get all threads of the launch
+   */
+  getThreads(): ThreadState[] {
+    return this.engine.getState().threads;
+  }
+
+  /**
+   * Get all warps of the launch (PCs, active masks, SIMT stacks)
+   */
+  getWarps(): readonly Warp[] {
+    return this.engine.getWarps();
+  }
+
+  /**
+   * Recorded cycles, oldest first (back to the earliest checkpoint)
+   */
+  getHistory(): readonly CycleRecord[] {
+    return this.history;
+  }
+
+  /**
+   * Result of the launch so far (memory as the kernel sees it)
+   */
+  getResult(): LaunchResult {
+    if (this.engine.isComplete()) {
+      this.engine.run(); // No cycles left; writes back a write-back cache
+    }
+    return this.engine.getLaunchResult();
+  }
+
+  /**
+   * Execute one engine cycle, take a checkpoint if due, and return the
+   * breakpoints it hit
+   */
+  private runCycle(): BreakpointHit[] {
+    const before = this.engine.getCycle();
+    this.engine.executeCycle();
+    const cycle = this.engine.getCycle();
+    if (cycle === before) {
+      return [];
+    }
+
+    if (cycle % this.checkpointInterval === 0 && !this.checkpoints.has(cycle)) {
+      this.checkpoints.set(cycle, this.engine.createCheckpoint());
+      if (this.checkpoints.size > this.maxCheckpoints) {
+        this.checkpoints.delete(Math.min(...this.checkpoints.keys()));
+        const earliest = this.earliestCycle();
+        this.history = this.history.filter((r) => r.cycle >= earliest);
+      }
+    }
+
+    const hits = this.checkBreakpoints(this.history[this.history.length - 1]);
+    this.lastPCs = this.engine.getThreadPCs();
+    return hits;
+  }
+
+  /**
+   * Breakpoints hit by a cycle: a thread arrives at a PC when it executed
+   * an instruction or its PC changed (e.g. on reconvergence)
+   */
+  private checkBreakpoints(record: CycleRecord): BreakpointHit[] {
+    const executed = new Set(record.threadIds);
+    const arrived: { id: number; blockId: number; pc: Address }[] = [];
+    for (const [id, pc] of this.engine.getThreadPCs()) {
+      if (executed.has(id) || this.lastPCs.get(id) !== pc) {
+        arrived.push({ id, blockId: this.blockOf(id), pc });
+      }
+    }
+    const hits: BreakpointHit[] = [];
+
+    for (const breakpoint of this.breakpoints) {
+      if (!breakpoint.enabled) continue;
+
+      if (breakpoint.kind === 'instruction') {
+        const threadIds = arrived
+          .filter(
+            (t) =>
+              (breakpoint.pc === undefined || t.pc === breakpoint.pc) &&
+              this.matchesThread(t, breakpoint.blockId, breakpoint.threadId)
+          )
+          .map((t) => t.id);
+        if (threadIds.length > 0) {
+          hits.push({ breakpoint: { ...breakpoint }, threadIds });
+        }
+      } else {
+        const writes = record.memoryWrites.filter((w) => w.address === breakpoint.address);
+        if (writes.length > 0) {
+          hits.push({
+            breakpoint: { ...breakpoint },
+            threadIds: writes.map((w) => w.threadId),
+            address: breakpoint.address,
+          });
+        }
+      }
+    }
+    return hits;
+  }
+
+  /**
+   * Check a thread against optional block and thread filters
+   */
+  private matchesThread(
+    thread: { id: number; blockId: number },
+    blockId?: number,
+    threadId?: number
+  ): boolean {
+    return (
+      (threadId === undefined || thread.id === threadId) &&
+      (blockId === undefined || thread.blockId === blockId)
+    );
+  }
+
+  /**
+   * Check whether a recorded cycle executed an instruction of the filtered threads
+   */
+  private executedBy(record: CycleRecord, filter: { blockId?: number; threadId?: number }): boolean {
+    return record.threadIds.some((id) =>
+      this.matchesThread({ id, blockId: this.blockOf(id) }, filter.blockId, filter.threadId)
+    );
+  }
+
+  /**
+   * Block of a thread of the launch, or -1
+   */
+  private blockOf(threadId: number): number {
+    return this.threadBlocks.get(threadId) ?? -1;
+  }
+
+  /**
+   * Build a stop event and remember watch values for the next one
+   */
+  private stop(reason: StopReason, hits: BreakpointHit[]): StopEvent {
+    const watches = this.getWatches();
+    for (const watch of this.watches) {
+      watch.lastValue = this.readTarget(watch.target);
+    }
+    return { reason, cycle: this.engine.getCycle(), hits, watches };
+  }
+
+  private finishReason(): StopReason {
+    if (this.engine.isHalted()) {
+      return 'fault';
+    }
+    return this.engine.isComplete() ? 'completed' : 'max-cycles';
+  }
+
+  /**
+   * Read the location a watch refers to
+   */
+  private readTarget(target: WatchTarget): Word | null {
+    switch (target.kind) {
+      case 'memory':
+        try {
+          return this.engine.readMemory(target.address);
+        } catch {
+          return null;
+        }
+      case 'shared': {
+        const block = this.engine.getBlock(target.blockId);
+        return block?.sharedMemory?.[target.address] ?? null;
+      }
+      default: {
+        const thread = this.engine.getThread(target.threadId);
+        if (!thread) return null;
+        if (target.kind === 'pc') return thread.pc;
+        if (target.kind === 'nzp') return thread.nzp ?? 0;
+        return thread.registers[target.register] ?? null;
+      }
+    }
+  }
+
+  private currentRecord(cycle: number): CycleRecord {
+    if (!this.current) {
+      this.current = { cycle, warpId: null, pc: null, opcode: null, threadIds: [], memoryWrites: [] };
+    }
+    return this.current;
+  }
+
+  private earliestCycle(): number {
+    return Math.min(...this.checkpoints.keys());
+  }
+
+  private requireLaunch(): void {
+    if (!this.launched) {
+      throw new Error('No kernel launched; call launch() first');
+    }
+  }
+}
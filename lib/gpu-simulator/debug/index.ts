@@ -0,0 +1,15 @@
+/**
+ * Debugging Tools
+ */
+
+export {
+  SimulatorDebugger,
+  type BreakpointSpec,
+  type Breakpoint,
+  type BreakpointHit,
+  type WatchValue,
+  type StopReason,
+  type StopEvent,
+  type CycleRecord,
+  type DebuggerOptions,
+} from './debugger';
@@ -0,0 +1,76 @@
+/**
+ * Block Dispatcher
+ * Ported from tiny-gpu's dispatch unit: hands the blocks of a grid to
+ * cores as they free up, in block order
+ */
+
+import type { BlockState, Word } from '../types';
+import type { ExecutionEngine } from './execution-engine';
+
+export class BlockDispatcher {
+  private queue: BlockState[] = [];
+  private args: Word[] = [];
+  private maxBlocksPerCore: number;
+  private assignments: Map<number, number> = new Map(); // Block id -> core index
+
+  constructor(maxBlocksPerCore: number = 1) {
+    if (!Number.isInteger(maxBlocksPerCore) || maxBlocksPerCore < 1) {
+      throw new Error(`maxBlocksPerCore must be a positive integer, got ${maxBlocksPerCore}`);
+    }
+    this.maxBlocksPerCore = maxBlocksPerCore;
+  }
+
+  /**
+   * Queue the blocks of a new grid, dropping any left from a previous one
+   */
+  load(blocks: BlockState[], args: Word[] = []): void {
+    this.queue = [...blocks];
+    this.args = args;
+    this.assignments.clear();
+  }
+
+  /**
+   * Give queued blocks to cores with free block slots, lowest core first
+   * Returns the number of blocks dispatched
+   */
+  dispatch(cores: ExecutionEngine[]): number {
+    let dispatched = 0;
+
+    cores.forEach((core, coreIndex) => {
+      const free = this.maxBlocksPerCore - core.getResidentBlockCount();
+      if (free <= 0 || this.queue.length === 0) {
+        return;
+      }
+
+      const blocks = this.queue.splice(0, free);
+      core.addBlocks(blocks, this.args);
+      for (const block of blocks) {
+        this.assignments.set(block.id, coreIndex);
+      }
+      dispatched += blocks.length;
+    });
+
+    return dispatched;
+  }
+
+  /**
+   * Check whether every block has been handed to a core
+   */
+  isDone(): boolean {
+    return this.queue.length === 0;
+  }
+
+  /**
+   * Number of blocks still waiting for a core
+   */
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Core each dispatched block was assigned to
+   */
+  getAssignments(): Map<number, number> {
+    return new Map(this.assignments);
+  }
+}
@@ -4,139 +4,794 @@
  * Main orchestrator for GPU execution
  */
 
-import type { Word, Address, Instruction, ThreadState, BlockState, GPUState, MemoryConfig } from '../types';
-import { RegisterFile } from '../core/register-file';
-import { ThreadScheduler } from '../core/thread-scheduler';
-import { ExecutionUnit } from '../core/execution-unit';
-import { MemoryController } from '../memory/memory-controller';
-import { Cache } from '../memory/cache';
+import type {
+  Word,
+  Address,
+  RegisterIndex,
+  Instruction,
+  ThreadState,
+  BlockState,
+  GPUState,
+  MemoryConfig,
+  BranchMode,
+  WarpSchedulingPolicyName,
+  Fault,
+  FaultKind,
+  FaultAction,
+} from '../types';
+import { RegisterFile, SPECIAL_REGISTER_NAMES, type RegisterFileSnapshot } from '../core/register-file';
+import { ThreadScheduler, type Warp, type ThreadSchedulerSnapshot } from '../core/thread-scheduler';
+import { computeReconvergencePoints } from '../core/control-flow';
+import { createWarpSchedulingPolicy, type WarpSchedulingPolicy } from '../core/warp-scheduling';
+import { MemoryController, type MemoryControllerSnapshot } from '../memory/memory-controller';
+import { Cache, createL2Cache, type CacheSnapshot } from '../memory/cache';
+import { DRAM, createDRAM, type DRAMSnapshot } from '../memory/dram';
+import { analyzeBankConflicts } from '../memory/coalescing';
 import { InstructionDecoder } from '../instruction-set/decoder';
-import { executeInstruction, type InstructionContext } from '../instruction-set/instructions';
+import { Assembler } from '../instruction-set/assembler';
+import { getOpcodeByCode } from '../instruction-set/opcodes';
+import {
+  executeWarpInstruction,
+  createWarpInstructionResult,
+  type WarpInstructionContext,
+  type WarpInstructionResult,
+} from '../instruction-set/warp-instructions';
+import { serializeEngineState, parseEngineState } from './saved-state';
 
 export interface ExecutionConfig {
   memory: MemoryConfig;
   maxCycles?: number;
   enableCache?: boolean;
+  warpSize?: number; // Threads per warp (default 32)
+  sharedMemorySize?: number; // Shared memory words per block (default 256)
+  sharedMemoryBanks?: number; // Banks for shared memory conflict counting (default 32)
+  branchMode?: BranchMode; // 'nzp' (default) or legacy 'register'
+  // Built-in policy name (default 'loose-round-robin'), or a factory for a custom policy
+  warpScheduler?: WarpSchedulingPolicyName | (() => WarpSchedulingPolicy);
+  activeWarps?: number; // Active pool size of the 'two-level' policy (default 4)
+  faults?: Partial<Record<FaultKind, FaultAction>>; // Per fault kind (default 'trap-stop')
+}
+
+/**
+ * Kernel launch parameters (1-D grid, as in tiny-gpu)
+ */
+export interface LaunchOptions {
+  program: Word[] | string; // Instruction words, or assembly source
+  gridDim: number; // Number of blocks
+  blockDim: number; // Threads per block
+  memoryImage?: Word[]; // Initial global memory, loaded at address 0
+  args?: Word[]; // Kernel arguments, preloaded into R0..R(n-1) of every thread
+}
+
+export interface BlockStats {
+  blockId: number;
+  threads: number;
+  instructions: number; // Thread-instructions executed
+  completedCycle: number | null; // Cycle at which the last thread returned
+}
+
+export interface LaunchResult {
+  memory: Word[];
+  cycles: number;
+  completed: boolean; // False if maxCycles was reached or a fault halted the kernel first
+  blocks: BlockStats[];
+  faults: Fault[];
+}
+
+/**
+ * A thread executed an instruction (reported after it executed)
+ */
+export interface InstructionEvent {
+  cycle: number;
+  warpId: number; // Index of the warp in scheduling order
+  thread: ThreadState;
+  pc: Address; // PC the instruction was fetched from
+  instruction: Instruction;
+}
+
+/**
+ * A thread issued a global memory request
+ */
+export interface MemoryAccessEvent {
+  cycle: number;
+  requestId: number;
+  thread: ThreadState;
+  pc: Address;
+  address: Address;
+  data?: Word; // Store data
+  write: boolean;
+  cacheHit: boolean | null; // Of the request's transaction; null when the cache is disabled
+  readyCycle: number; // Cycle at which the response is delivered
+  coalesced: boolean; // Shares a transaction opened by an earlier lane of the same warp
+}
+
+/**
+ * A global memory request completed and, for a load, its data was
+ * written back to the destination register
+ */
+export interface MemoryResponseEvent {
+  cycle: number;
+  requestId: number;
+  warpId: number;
+  thread: ThreadState;
+  register?: RegisterIndex; // Load destination; undefined for a store
+  data?: Word; // Loaded value
+}
+
+/**
+ * A warp executed a shared memory instruction (reported once per warp,
+ * after all its lanes executed)
+ */
+export interface SharedMemoryAccessEvent {
+  cycle: number;
+  warpId: number;
+  pc: Address;
+  addresses: Address[]; // One per lane that accessed shared memory
+  write: boolean;
+  bankConflicts: number; // Extra serialized passes caused by bank conflicts
+}
+
+/**
+ * Hooks for tools that watch a run (debugger, profiler, tracers)
+ * Observers must not modify simulator state.
+ */
+export interface ExecutionObserver {
+  onCycleStart?(cycle: number): void; // After due memory responses were delivered, before issue
+  onInstruction?(event: InstructionEvent): void;
+  onMemoryAccess?(event: MemoryAccessEvent): void;
+  onMemoryResponse?(event: MemoryResponseEvent): void; // Before onCycleStart of the cycle it completes in
+  onSharedMemoryAccess?(event: SharedMemoryAccessEvent): void;
+  onCycleEnd?(cycle: number): void; // `cycle` is the cycle that just finished
+}
+
+/**
+ * Complete engine state at a cycle boundary (see ExecutionEngine.createCheckpoint)
+ * Plain data: it can be kept in memory or serialized as JSON.
+ */
+export interface EngineCheckpoint {
+  cycle: number;
+  stallCycles: number;
+  program: Word[];
+  memory: Word[];
+  blocks: BlockState[];
+  blockStats: BlockStats[];
+  pendingMemory: { requestId: number; threadId: number; warpId: number; register?: number }[];
+  registerFile: RegisterFileSnapshot;
+  scheduler: ThreadSchedulerSnapshot;
+  memoryController: MemoryControllerSnapshot;
+  cache: CacheSnapshot | null;
+  l2: CacheSnapshot | null;
+  dram: DRAMSnapshot | null;
+  faults: Fault[];
+  halted: boolean;
+  sharedMemoryStats: SharedMemoryStats;
+}
+
+/**
+ * Shared memory traffic and bank conflicts, counted per warp instruction
+ * Conflicts are reported only; LDS/STS still take a single cycle.
+ */
+export interface SharedMemoryStats {
+  requests: number; // Warp LDS/STS instructions
+  accesses: number; // Thread-level accesses
+  bankConflicts: number; // Extra serialized passes, summed over requests
+  conflictedRequests: number; // Requests with at least one conflict
+}
+
+/**
+ * Global memory, L2 and DRAM timing shared by the cores of a multi-core GPU
+ */
+export interface SharedMemorySystem {
+  memory: Uint32Array;
+  l2: Cache | null;
+  dram: DRAM | null;
+}
+
+/**
+ * A program word decoded once at load time
+ */
+interface DecodedWord {
+  word: Word;
+  instruction: Instruction; // Unknown opcodes decode as NOP
+  legal: boolean; // False for unknown opcodes
+}
+
+/**
+ * Branches whose lanes can diverge; each consumes a pending JOIN
+ */
+const CONDITIONAL_BRANCHES = new Set(['BRz', 'BRnz', 'BRn', 'BRp']);
+
+/**
+ * R13-R15 hold the thread identity, so at most R0-R12 can carry arguments
+ */
+const MAX_KERNEL_ARGS = 13;
+
+/**
+ * Reject more kernel arguments than there are writable registers
+ */
+function checkKernelArgs(args: Word[]): void {
+  if (args.length > MAX_KERNEL_ARGS) {
+    throw new Error(`At most ${MAX_KERNEL_ARGS} kernel arguments are supported, got ${args.length}`);
+  }
+}
+
+/**
+ * Validate launch options, assemble the program if needed and build the
+ * grid's blocks (thread ids are unique across the grid)
+ */
+export function buildGrid(options: LaunchOptions): { program: Word[]; blocks: BlockState[] } {
+  const { gridDim, blockDim, args = [] } = options;
+
+  if (!Number.isInteger(gridDim) || gridDim < 1) {
+    throw new Error(`gridDim must be a positive integer, got ${gridDim}`);
+  }
+  if (!Number.isInteger(blockDim) || blockDim < 1) {
+    throw new Error(`blockDim must be a positive integer, got ${blockDim}`);
+  }
+  checkKernelArgs(args);
+
+  const program =
+    typeof options.program === 'string'
+      ? new Assembler().assemble(options.program)
+      : options.program;
+
+  const blocks: BlockState[] = [];
+  for (let b = 0; b < gridDim; b++) {
+    const threads: ThreadState[] = [];
+    for (let t = 0; t < blockDim; t++) {
+      threads.push({
+        id: b * blockDim + t,
+        blockId: b,
+        pc: 0,
+        registers: [],
+        active: true,
+      });
+    }
+    blocks.push({ id: b, threads });
+  }
+
+  return { program, blocks };
 }
 
 export class ExecutionEngine {
   private registerFile: RegisterFile;
   private threadScheduler: ThreadScheduler;
-  private executionUnit: ExecutionUnit;
   private memoryController: MemoryController;
-  private cache: Cache;
+  private cache: Cache | null;
+  private l2: Cache | null;
+  private dram: DRAM | null;
+  private readonly sharesMemory: boolean; // Memory and L2 belong to a multi-core GPU
   private decoder: InstructionDecoder;
   private instructionMemory: Word[] = [];
-  private memory: Word[];
+  private program: DecodedWord[] = [];
+  private memory: Uint32Array;
+  private blocks: BlockState[] = [];
+  private blocksById: Map<number, BlockState> = new Map();
+  private blockStats: Map<number, BlockStats> = new Map();
+  private unfinishedBlocks: Set<BlockState> = new Set(); // Blocks to check in recordCompletedBlocks
+  private pendingMemory: Map<number, { thread: ThreadState; warp: Warp; register?: number }> = new Map();
   private config: ExecutionConfig;
   private cycle: number = 0;
+  private stallCycles: number = 0;
+  private idleCycles: number = 0;
+  private faults: Fault[] = [];
+  private sharedMemoryStats: SharedMemoryStats = { requests: 0, accesses: 0, bankConflicts: 0, conflictedRequests: 0 };
+  private halted: boolean = false; // A trap-stop fault ended the kernel
   private maxCycles: number;
+  private observers: ExecutionObserver[] = [];
+
+  // Per-issue scratch buffers, reused every cycle
+  private lanes: ThreadState[] = [];
+  private laneIndices: Int32Array = new Int32Array(32); // Warp lane of each entry of `lanes`
+  private nextPCs: Int32Array = new Int32Array(32); // By warp lane
+  private warpResult: WarpInstructionResult = createWarpInstructionResult(32);
+  private warpContext: WarpInstructionContext;
 
-  constructor(config: ExecutionConfig) {
+  /**
+   * @param shared Global memory and L2 owned by a multi-core GPU; the
+   *   engine allocates its own if omitted
+   */
+  constructor(config: ExecutionConfig, shared?: SharedMemorySystem) {
     this.config = config;
     this.maxCycles = config.maxCycles || 1000000;
+    const { sharedMemorySize = 256, sharedMemoryBanks = 32 } = config;
+    if (!Number.isInteger(sharedMemorySize) || sharedMemorySize < 0) {
+      throw new Error(`Shared memory size must be a non-negative integer, got ${sharedMemorySize}`);
+    }
+    if (!Number.isInteger(sharedMemoryBanks) || sharedMemoryBanks < 1) {
+      throw new Error(`Shared memory banks must be a positive integer, got ${sharedMemoryBanks}`);
+    }
     
     this.registerFile = new RegisterFile();
-    this.threadScheduler = new ThreadScheduler();
-    this.executionUnit = new ExecutionUnit(this.registerFile);
-    this.memoryController = new MemoryController(config.memory);
-    this.cache = config.enableCache !== false ? new Cache(config.memory) : null as any;
+    this.threadScheduler = new ThreadScheduler(
+      config.warpSize,
+      typeof config.warpScheduler === 'function'
+        ? config.warpScheduler()
+        : createWarpSchedulingPolicy(config.warpScheduler, { activeWarps: config.activeWarps })
+    );
+    this.sharesMemory = shared !== undefined;
+    this.memory = shared?.memory ?? new Uint32Array(config.memory.globalMemorySize);
+    const enableCache = config.enableCache !== false;
+    this.l2 = shared ? shared.l2 : enableCache ? createL2Cache(config.memory) : null;
+    this.cache = enableCache ? new Cache(config.memory, this.l2) : null;
+    this.dram = shared ? shared.dram : createDRAM(config.memory);
+    this.memoryController = new MemoryController(config.memory, this.memory, this.cache, this.dram);
     this.decoder = new InstructionDecoder();
-    this.memory = new Array(config.memory.globalMemorySize).fill(0);
+    this.warpContext = {
+      registerFile: this.registerFile,
+      memorySize: this.memory.length,
+      branchMode: config.branchMode || 'nzp',
+    };
   }
 
   /**
-   * Load instruction memory
+   * Load instruction memory, decoding every word once
    */
   loadInstructions(instructions: Word[]): void {
     this.instructionMemory = [...instructions];
+    this.program = instructions.map((word) => ({
+      word,
+      instruction: this.decoder.decode(word),
+      legal: getOpcodeByCode((word >>> 24) & 0xff) !== undefined,
+    }));
+    this.threadScheduler.setReconvergencePoints(
+      computeReconvergencePoints(this.program.map((decoded) => decoded.instruction))
+    );
+  }
+
+  /**
+   * Load data into global memory
+   */
+  loadMemory(data: Word[], offset: Address = 0): void {
+    if (offset < 0 || offset + data.length > this.memory.length) {
+      throw new Error(
+        `Memory image [${offset}, ${offset + data.length}) exceeds global memory of ${this.memory.length} words`
+      );
+    }
+    for (let i = 0; i < data.length; i++) {
+      this.memory[offset + i] = data[i] >>> 0;
+    }
+    if (this.cache) {
+      this.cache.invalidate();
+    }
+    if (this.l2) {
+      this.l2.invalidate();
+    }
+  }
+
+  /**
+   * Launch a kernel: build the grid, load program and data, and run
+   * to completion (or maxCycles). Resets all previous state.
+   */
+  launch(options: LaunchOptions): LaunchResult {
+    this.prepareLaunch(options);
+    this.run();
+    return this.getLaunchResult();
+  }
+
+  /**
+   * Set up a kernel launch without running it, so it can be stepped
+   * with executeCycle (as the debugger does). Resets all previous state.
+   */
+  prepareLaunch(options: LaunchOptions): void {
+    const { program, blocks } = buildGrid(options);
+
+    this.reset();
+    this.loadInstructions(program);
+    this.loadMemory(options.memoryImage ?? []);
+    this.initializeBlocks(blocks, options.args);
+  }
+
+  /**
+   * Result of the current launch so far
+   */
+  getLaunchResult(): LaunchResult {
+    return {
+      memory: this.getMemory(),
+      cycles: this.cycle,
+      completed: this.threadScheduler.isComplete() && !this.halted,
+      blocks: this.blocks.map((block) => ({ ...this.blockStats.get(block.id)! })),
+      faults: this.getFaults(),
+    };
+  }
+
+  /**
+   * Initialize blocks and threads, replacing any previous ones
+   * Thread ids must be unique across blocks; each thread's %blockIdx,
+   * %blockDim and %threadIdx come from its block and position in it.
+   * `args` are preloaded into R0..R(n-1) of every thread.
+   */
+  initializeBlocks(blocks: BlockState[], args: Word[] = []): void {
+    this.blocks = [];
+    this.blocksById = new Map();
+    this.blockStats = new Map();
+    this.unfinishedBlocks = new Set();
+    this.threadScheduler.initializeBlocks([]);
+    this.addBlocks(blocks, args);
   }
 
   /**
-   * Initialize blocks and threads
+   * Add blocks to a running core (used by the multi-core block dispatcher)
    */
-  initializeBlocks(blocks: BlockState[]): void {
+  addBlocks(blocks: BlockState[], args: Word[] = []): void {
+    checkKernelArgs(args);
+
     // Initialize register files for all threads
     for (const block of blocks) {
-      for (const thread of block.threads) {
+      block.threads.forEach((thread, threadIdx) => {
         this.registerFile.initializeThread(thread.id);
-        thread.registers = this.registerFile.getRegisters(thread.id);
-      }
+        this.registerFile.setSpecialRegisters(
+          thread.id,
+          block.id,
+          block.threads.length,
+          threadIdx
+        );
+        args.forEach((value, reg) => this.registerFile.write(thread.id, reg, value >>> 0));
+        this.registerFile.updateThreadState(thread);
+        thread.waitingAtBarrier = false;
+      });
+      block.sharedMemory = new Array(this.config.sharedMemorySize ?? 256).fill(0);
+
+      this.blocks.push(block);
+      this.blocksById.set(block.id, block);
+      this.unfinishedBlocks.add(block);
+      this.blockStats.set(block.id, {
+        blockId: block.id,
+        threads: block.threads.length,
+        instructions: 0,
+        completedCycle: null,
+      });
     }
 
-    // Initialize thread scheduler
-    this.threadScheduler.initializeBlocks(blocks);
+    this.threadScheduler.addBlocks(blocks);
+  }
+
+  /**
+   * Number of blocks on this core that have not finished
+   */
+  getResidentBlockCount(): number {
+    return [...this.blockStats.values()].filter((stats) => stats.completedCycle === null).length;
+  }
+
+  /**
+   * Let a cycle pass on a core with nothing to run, keeping it in step
+   * with the other cores of a multi-core GPU
+   */
+  idleCycle(): void {
+    this.completeMemoryRequests();
+    this.idleCycles++;
+    this.cycle++;
+    this.threadScheduler.tick();
   }
 
   /**
    * Execute one cycle
    */
   executeCycle(): boolean {
-    if (this.cycle >= this.maxCycles) {
-      return false; // Max cycles reached
+    if (this.cycle >= this.maxCycles || this.halted) {
+      return false; // Max cycles reached, or stopped by a fault
+    }
+
+    // Deliver memory responses that are due this cycle
+    this.completeMemoryRequests();
+
+    for (const observer of this.observers) {
+      observer.onCycleStart?.(this.cycle);
     }
 
     const warp = this.threadScheduler.getNextWarp();
-    if (!warp) {
+    if (warp) {
+      this.executeWarp(warp);
+    } else if (!this.threadScheduler.isComplete()) {
+      // No warp issued: all are waiting on memory or a barrier, or the
+      // policy's turn went to one that is
+      this.stallCycles++;
+    } else {
       return false; // No more warps to execute
     }
 
-    // Execute instructions for all active threads in warp
-    const activeThreads = this.threadScheduler.getActiveThreads(warp);
-    
-    for (const thread of activeThreads) {
-      if (thread.pc >= this.instructionMemory.length) {
+    // Update cycle
+    this.cycle++;
+    this.threadScheduler.tick();
+
+    this.recordCompletedBlocks();
+
+    for (const observer of this.observers) {
+      observer.onCycleEnd?.(this.cycle - 1);
+    }
+
+    return !this.threadScheduler.isComplete() && !this.halted;
+  }
+
+  /**
+   * Execute one instruction for the active lanes of a warp, then let the
+   * scheduler handle divergence and reconvergence
+   * Active lanes share the warp's PC, so the instruction runs for all of
+   * them in lockstep; its per-lane effects (faults, events, memory
+   * requests) are then applied in lane order.
+   */
+  private executeWarp(warp: Warp): void {
+    const issueMask = this.threadScheduler.getIssueMask(warp);
+    const lanes = this.lanes;
+    lanes.length = 0;
+    for (let lane = 0; lane < warp.threads.length; lane++) {
+      if ((issueMask & (1 << lane)) !== 0) {
+        this.laneIndices[lanes.length] = lane;
+        lanes.push(warp.threads[lane]);
+      }
+    }
+
+    const warpId = warp.id;
+    const block = this.blocksById.get(lanes[0].blockId);
+    const pc = lanes[0].pc;
+    let runningMask = 0;
+    let lanesStopped = false; // A lane returned, faulted out or reached a barrier
+    let consumesJoin = false; // A JOIN applies to the next conditional branch only
+
+    if (pc < 0 || pc >= this.program.length) {
+      for (const thread of lanes) {
+        this.raiseFault('pc-out-of-range', thread, thread.pc);
         thread.active = false;
-        continue;
       }
+      lanesStopped = true;
+    } else {
+      const { word, instruction, legal } = this.program[pc];
+      const result = this.warpResult;
+      this.warpContext.sharedMemory = block?.sharedMemory;
+      executeWarpInstruction(instruction, pc, lanes, this.warpContext, result);
 
-      // Fetch instruction
-      const instructionWord = this.instructionMemory[thread.pc];
-      const instruction = this.decoder.decode(instructionWord);
+      const stats = this.blockStats.get(lanes[0].blockId);
+      const observing = this.observers.length > 0;
+      const register = result.memory === 'read' ? instruction.rd : undefined;
+      lanesStopped = result.done || result.barrier;
+      consumesJoin = CONDITIONAL_BRANCHES.has(instruction.opcode);
 
-      // Create execution context
-      const context: InstructionContext = {
-        thread,
-        registerFile: this.registerFile,
-        executionUnit: this.executionUnit,
-        memoryController: this.memoryController,
-        cache: this.cache,
-        memory: this.memory,
-      };
-
-      // Execute instruction
-      const result = executeInstruction(instruction, context);
-
-      // Update PC
-      if (result.shouldBranch) {
-        thread.pc = result.nextPC;
+      const simple =
+        legal && result.faultCount === 0 && !result.memory && !lanesStopped && result.join === undefined;
+
+      if (simple && !observing) {
+        // Common case: every lane just moves on to its next PC
+        for (let i = 0; i < lanes.length; i++) {
+          lanes[i].pc = result.nextPC[i];
+          this.nextPCs[this.laneIndices[i]] = result.nextPC[i];
+        }
+        if (stats) {
+          stats.instructions += lanes.length;
+        }
+        runningMask = issueMask;
       } else {
-        thread.pc = result.nextPC;
+        for (let i = 0; i < lanes.length; i++) {
+          const thread = lanes[i];
+          const fault = result.faultCount > 0 ? result.faults[i] : null;
+          if (!legal) {
+            this.raiseFault('illegal-instruction', thread, pc, { word, instruction });
+          }
+          if (fault) {
+            this.raiseFault(fault, thread, pc, {
+              word,
+              instruction,
+              address: fault.endsWith('out-of-bounds') ? result.address[i] : undefined,
+            });
+          }
+
+          if (stats) {
+            stats.instructions++;
+          }
+
+          // Update PC
+          thread.pc = result.nextPC[i];
+          if (result.done) {
+            thread.active = false;
+          }
+          if (result.barrier) {
+            thread.waitingAtBarrier = true;
+          }
+          if (result.join !== undefined) {
+            this.threadScheduler.setJoinPoint(warp, result.join);
+          }
+          if (thread.active) {
+            this.nextPCs[this.laneIndices[i]] = thread.pc;
+            runningMask |= 1 << this.laneIndices[i];
+          }
+
+          if (observing) {
+            this.registerFile.updateThreadState(thread);
+            for (const observer of this.observers) {
+              observer.onInstruction?.({ cycle: this.cycle, warpId, thread, pc, instruction });
+            }
+          }
+
+          // Issue memory access; the warp stalls until the response arrives
+          if (result.memory && !fault) {
+            const write = result.memory === 'write';
+            const data = write ? result.data[i] : undefined;
+            this.issueMemoryRequest(warp, thread, pc, result.address[i], data, write, register);
+          }
+        }
       }
 
-      // Update thread state
-      this.registerFile.updateThreadState(thread);
-
-      // Handle memory access
-      if (result.memoryAccess) {
-        this.memoryController.request({
-          address: result.memoryAccess.address,
-          data: result.memoryAccess.data,
-          write: result.memoryAccess.write,
-          threadId: thread.id,
-          blockId: thread.blockId,
-        });
+      if (result.shared) {
+        const addresses: Address[] = [];
+        for (let i = 0; i < lanes.length; i++) {
+          if (result.faultCount === 0 || !result.faults[i]) {
+            addresses.push(result.address[i]);
+          }
+        }
+        if (addresses.length > 0) {
+          this.recordSharedAccess(warpId, pc, addresses, result.shared === 'write');
+        }
       }
     }
 
-    // Process memory requests
-    this.memoryController.processRequests();
+    this.threadScheduler.advanceWarp(warp, lanes.length, this.nextPCs, runningMask >>> 0);
+    if (consumesJoin) {
+      // Even when the branch did not diverge, so the join point cannot
+      // leak to an unrelated later branch
+      this.threadScheduler.setJoinPoint(warp, undefined);
+    }
 
-    // Update cycle
-    this.cycle++;
-    this.threadScheduler.tick();
+    // Only the issuing block's barrier and completion can have changed
+    if (lanesStopped && block) {
+      this.releaseBarrier(block);
+      this.unfinishedBlocks.add(block);
+    }
+  }
+
+  /**
+   * Send a lane's global memory access to the memory controller
+   */
+  private issueMemoryRequest(
+    warp: Warp,
+    thread: ThreadState,
+    pc: Address,
+    address: Address,
+    data: Word | undefined,
+    write: boolean,
+    register: RegisterIndex | undefined
+  ): void {
+    const requestId = this.memoryController.request(
+      { address, data, write, threadId: thread.id, blockId: thread.blockId, warpId: warp.id, register },
+      this.cycle
+    );
+    this.pendingMemory.set(requestId, { thread, warp, register });
+    warp.pendingRequests++;
+
+    if (this.observers.length === 0) {
+      return;
+    }
+    const inFlight = this.memoryController.getInFlightRequest(requestId)!;
+    for (const observer of this.observers) {
+      observer.onMemoryAccess?.({
+        cycle: this.cycle,
+        requestId,
+        thread,
+        pc,
+        address,
+        data,
+        write,
+        cacheHit: inFlight.cacheHit,
+        readyCycle: inFlight.readyCycle,
+        coalesced: inFlight.coalesced,
+      });
+    }
+  }
+
+  /**
+   * Count bank conflicts of a warp's shared memory instruction
+   */
+  private recordSharedAccess(warpId: number, pc: Address, addresses: Address[], write: boolean): void {
+    const { conflicts } = analyzeBankConflicts(addresses, this.config.sharedMemoryBanks ?? 32);
+    this.sharedMemoryStats.requests++;
+    this.sharedMemoryStats.accesses += addresses.length;
+    this.sharedMemoryStats.bankConflicts += conflicts;
+    if (conflicts > 0) {
+      this.sharedMemoryStats.conflictedRequests++;
+    }
+
+    for (const observer of this.observers) {
+      observer.onSharedMemoryAccess?.({ cycle: this.cycle, warpId, pc, addresses, write, bankConflicts: conflicts });
+    }
+  }
+
+  /**
+   * Record a fault according to the configured action for its kind
+   * A trap-stop fault halts the kernel once the current cycle ends.
+   */
+  private raiseFault(
+    kind: FaultKind,
+    thread: ThreadState,
+    pc: Address,
+    details: { word?: Word; instruction?: Instruction; address?: Address } = {}
+  ): void {
+    const action = this.config.faults?.[kind] ?? 'trap-stop';
+    if (action === 'ignore') {
+      return;
+    }
+
+    const opcode = details.instruction?.opcode;
+    const descriptions: Record<FaultKind, string> = {
+      'global-out-of-bounds': `${opcode} address ${details.address} is outside global memory of ${this.memory.length} words`,
+      'shared-out-of-bounds': `${opcode} address ${details.address} is outside shared memory of ${this.config.sharedMemorySize ?? 256} words`,
+      'divide-by-zero': 'DIV by zero',
+      'illegal-instruction': `illegal opcode 0x${((details.word ?? 0) >>> 24).toString(16).padStart(2, '0')}`,
+      'pc-out-of-range': `PC is outside the program of ${this.instructionMemory.length} instructions`,
+      'read-only-register': `${opcode} writes read-only R${details.instruction?.rd} (${SPECIAL_REGISTER_NAMES[details.instruction?.rd ?? 0]})`,
+      'barrier-deadlock': `SYNC can never be released: the rest of block ${thread.blockId} cannot reach it`,
+    };
+
+    this.faults.push({
+      kind,
+      cycle: this.cycle,
+      threadId: thread.id,
+      blockId: thread.blockId,
+      pc,
+      ...details,
+      message: `Thread ${thread.id} (block ${thread.blockId}) at PC ${pc}: ${descriptions[kind]}`,
+    });
+    if (action === 'trap-stop') {
+      this.halted = true;
+    }
+  }
+
+  /**
+   * Release a block's SYNC barrier once its running threads have all
+   * arrived (threads that already returned do not hold a barrier up)
+   * A barrier that can never be released faults its waiting threads,
+   * which then stop, instead of stalling until maxCycles.
+   */
+  private releaseBarrier(block: BlockState): void {
+    if (!block.threads.some((t) => t.active && t.waitingAtBarrier)) {
+      return;
+    }
+    this.threadScheduler.releaseBarrier(block);
+    if (this.threadScheduler.isBarrierDeadlocked(block)) {
+      for (const thread of this.threadScheduler.retireBarrierThreads(block)) {
+        this.raiseFault('barrier-deadlock', thread, thread.pc - 1);
+      }
+    }
+  }
+
+  /**
+   * Write back load data and release warps for completed memory requests
+   */
+  private completeMemoryRequests(): void {
+    for (const response of this.memoryController.processRequests(this.cycle)) {
+      const pending = this.pendingMemory.get(response.requestId!);
+      if (!pending) continue;
+      this.pendingMemory.delete(response.requestId!);
+
+      const { thread, warp, register } = pending;
+      if (register !== undefined) {
+        this.registerFile.write(thread.id, register, response.data);
+      }
+      warp.pendingRequests--;
+
+      for (const observer of this.observers) {
+        observer.onMemoryResponse?.({
+          cycle: this.cycle,
+          requestId: response.requestId!,
+          warpId: warp.id,
+          thread,
+          register,
+          data: register !== undefined ? response.data : undefined,
+        });
+      }
+    }
+  }
 
-    return !this.threadScheduler.isComplete();
+  /**
+   * Record the completion cycle of blocks whose threads have all returned
+   * Only blocks that were added or had lanes stop since the last call are
+   * checked.
+   */
+  private recordCompletedBlocks(): void {
+    for (const block of this.unfinishedBlocks) {
+      const stats = this.blockStats.get(block.id);
+      if (stats && stats.completedCycle === null && block.threads.every((t) => !t.active)) {
+        stats.completedCycle = this.cycle;
+      }
+    }
+    this.unfinishedBlocks.clear();
   }
 
   /**
@@ -147,28 +802,37 @@ export class ExecutionEngine {
       // Continue execution
     }
 
+    // Kernel finished: make write-back data visible in global memory
+    if (this.threadScheduler.isComplete()) {
+      this.flushCaches();
+    }
+
     return this.getState();
   }
 
+  /**
+   * Write dirty lines back through L1 and L2 to global memory (through
+   * the DRAM model, if any, at the current cycle)
+   */
+  flushCaches(): void {
+    this.memoryController.flushCaches(this.cycle, this.l2);
+  }
+
   /**
    * Get current GPU state
    */
   getState(): GPUState {
-    const blocks: BlockState[] = [];
-    const threads: ThreadState[] = [];
-
-    // Collect thread states
-    const stats = this.threadScheduler.getStats();
-    
-    // Note: In a full implementation, we'd reconstruct blocks from scheduler state
-    // For now, return the current execution state
+    const blocks = this.blocks;
+    const threads: ThreadState[] = blocks.flatMap((block) => block.threads);
+    this.syncThreadStates();
 
     return {
-      memory: this.memory,
-      cache: this.cache ? [] : [], // Cache state would need to be serialized
+      memory: this.getMemory(),
+      cache: this.cache ? this.cache.getLines() : [],
       threads,
       blocks,
       cycle: this.cycle,
+      faults: this.getFaults(),
     };
   }
 
@@ -176,7 +840,254 @@ export class ExecutionEngine {
    * Get memory snapshot
    */
   getMemory(): Word[] {
-    return [...this.memory];
+    return Array.from(this.memory);
+  }
+
+  /**
+   * Copy registers and condition codes into every thread's state
+   * Done on demand: the hot path only updates the register file.
+   */
+  private syncThreadStates(): void {
+    for (const block of this.blocks) {
+      for (const thread of block.threads) {
+        this.registerFile.updateThreadState(thread);
+      }
+    }
+  }
+
+  /**
+   * Read a global memory word as the kernel sees it (including data
+   * still held in a write-back cache), without disturbing the cache
+   */
+  readMemory(address: Address): Word {
+    if (address < 0 || address >= this.memory.length) {
+      throw new Error(`Address ${address} is outside global memory of ${this.memory.length} words`);
+    }
+    return this.cache ? this.cache.peek(address, this.memory) : this.memory[address];
+  }
+
+  /**
+   * PC of every thread still running, by thread id
+   * Cheaper than getState() for callers that only follow PCs.
+   */
+  getThreadPCs(): Map<number, Address> {
+    const pcs = new Map<number, Address>();
+    for (const block of this.blocks) {
+      for (const thread of block.threads) {
+        if (thread.active) {
+          pcs.set(thread.id, thread.pc);
+        }
+      }
+    }
+    return pcs;
+  }
+
+  /**
+   * Look up a thread of the current launch, with its registers refreshed
+   */
+  getThread(threadId: number): ThreadState | undefined {
+    for (const block of this.blocks) {
+      const thread = block.threads.find((t) => t.id === threadId);
+      if (thread) {
+        this.registerFile.updateThreadState(thread);
+        return thread;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Look up a block of the current launch (its shared memory is live)
+   */
+  getBlock(blockId: number): BlockState | undefined {
+    return this.blocksById.get(blockId);
+  }
+
+  /**
+   * Get the warps of the current launch in scheduling order
+   */
+  getWarps(): readonly Warp[] {
+    return this.threadScheduler.getWarps();
+  }
+
+  /**
+   * Get the current cycle
+   */
+  getCycle(): number {
+    return this.cycle;
+  }
+
+  /**
+   * Check whether every thread has returned and all memory requests completed
+   */
+  isComplete(): boolean {
+    return this.threadScheduler.isComplete();
+  }
+
+  /**
+   * Check whether the run has stopped (completed, out of cycles or halted by a fault)
+   */
+  isFinished(): boolean {
+    return this.isComplete() || this.cycle >= this.maxCycles || this.halted;
+  }
+
+  /**
+   * Check whether a trap-stop fault halted the kernel
+   */
+  isHalted(): boolean {
+    return this.halted;
+  }
+
+  /**
+   * Faults recorded so far, oldest first
+   */
+  getFaults(): Fault[] {
+    return this.faults.map((fault) => ({ ...fault }));
+  }
+
+  /**
+   * Register an observer for subsequent cycles
+   */
+  addObserver(observer: ExecutionObserver): void {
+    this.observers.push(observer);
+  }
+
+  /**
+   * Unregister an observer
+   */
+  removeObserver(observer: ExecutionObserver): void {
+    this.observers = this.observers.filter((o) => o !== observer);
+  }
+
+  /**
+   * Capture the complete engine state between cycles
+   */
+  createCheckpoint(): EngineCheckpoint {
+    this.syncThreadStates();
+
+    return {
+      cycle: this.cycle,
+      stallCycles: this.stallCycles,
+      program: [...this.instructionMemory],
+      memory: Array.from(this.memory),
+      blocks: this.blocks.map((block) => ({
+        id: block.id,
+        threads: block.threads.map((thread) => ({ ...thread, registers: [...thread.registers] })),
+        sharedMemory: block.sharedMemory ? [...block.sharedMemory] : undefined,
+      })),
+      blockStats: this.blocks.map((block) => ({ ...this.blockStats.get(block.id)! })),
+      pendingMemory: [...this.pendingMemory].map(([requestId, pending]) => ({
+        requestId,
+        threadId: pending.thread.id,
+        warpId: pending.warp.id,
+        register: pending.register,
+      })),
+      registerFile: this.registerFile.snapshot(),
+      scheduler: this.threadScheduler.snapshot(),
+      memoryController: this.memoryController.snapshot(),
+      cache: this.cache ? this.cache.snapshot() : null,
+      l2: this.l2 ? this.l2.snapshot() : null,
+      dram: this.dram ? this.dram.snapshot() : null,
+      faults: this.getFaults(),
+      halted: this.halted,
+      sharedMemoryStats: { ...this.sharedMemoryStats },
+    };
+  }
+
+  /**
+   * Return to a checkpoint taken from an engine with the same configuration
+   * Thread and block objects are recreated, so references obtained from
+   * getState() before the restore no longer track the run.
+   */
+  restoreCheckpoint(checkpoint: EngineCheckpoint): void {
+    if (checkpoint.memory.length !== this.memory.length) {
+      throw new Error(
+        `Checkpoint has ${checkpoint.memory.length} words of global memory, engine has ${this.memory.length}`
+      );
+    }
+    if ((checkpoint.cache !== null) !== (this.cache !== null) || (checkpoint.l2 !== null) !== (this.l2 !== null)) {
+      throw new Error('Checkpoint and engine disagree on which caches are enabled');
+    }
+    if ((checkpoint.dram !== null) !== (this.dram !== null)) {
+      throw new Error('Checkpoint and engine disagree on whether DRAM is modelled');
+    }
+
+    const sameProgram =
+      checkpoint.program.length === this.instructionMemory.length &&
+      checkpoint.program.every((word, i) => word === this.instructionMemory[i]);
+    if (!sameProgram) {
+      this.loadInstructions(checkpoint.program);
+    }
+
+    this.cycle = checkpoint.cycle;
+    this.stallCycles = checkpoint.stallCycles;
+    this.faults = checkpoint.faults.map((fault) => ({ ...fault }));
+    this.halted = checkpoint.halted;
+    this.sharedMemoryStats = { ...checkpoint.sharedMemoryStats };
+    for (let i = 0; i < this.memory.length; i++) {
+      this.memory[i] = checkpoint.memory[i];
+    }
+
+    this.blocks = checkpoint.blocks.map((block) => ({
+      id: block.id,
+      threads: block.threads.map((thread) => ({ ...thread, registers: [...thread.registers] })),
+      sharedMemory: block.sharedMemory ? [...block.sharedMemory] : undefined,
+    }));
+    this.blocksById = new Map(this.blocks.map((block) => [block.id, block]));
+    this.blockStats = new Map(checkpoint.blockStats.map((stats) => [stats.blockId, { ...stats }]));
+    this.unfinishedBlocks = new Set(this.blocks);
+
+    const threads = new Map(
+      this.blocks.flatMap((block) => block.threads.map((thread) => [thread.id, thread] as const))
+    );
+    this.registerFile.restore(checkpoint.registerFile);
+    this.threadScheduler.restore(checkpoint.scheduler, threads);
+    this.memoryController.restore(checkpoint.memoryController);
+    if (this.cache && checkpoint.cache) {
+      this.cache.restore(checkpoint.cache);
+    }
+    if (this.l2 && checkpoint.l2) {
+      this.l2.restore(checkpoint.l2);
+    }
+    if (this.dram && checkpoint.dram) {
+      this.dram.restore(checkpoint.dram);
+    }
+
+    const warps = this.threadScheduler.getWarps();
+    this.pendingMemory = new Map(
+      checkpoint.pendingMemory.map((pending) => [
+        pending.requestId,
+        { thread: threads.get(pending.threadId)!, warp: warps[pending.warpId], register: pending.register },
+      ])
+    );
+  }
+
+  /**
+   * Save the complete engine state and configuration as versioned JSON
+   * (see saved-state.ts), to resume later with loadState or fromSavedState
+   */
+  saveState(): string {
+    if (this.sharesMemory) {
+      throw new Error('Cannot save the state of a single core of a multi-core GPU');
+    }
+    return serializeEngineState(this.config, this.createCheckpoint());
+  }
+
+  /**
+   * Resume from a saved state taken from an engine with the same configuration
+   */
+  loadState(text: string): void {
+    this.restoreCheckpoint(parseEngineState(text).checkpoint);
+  }
+
+  /**
+   * Build an engine with a saved state's configuration and resume it
+   */
+  static fromSavedState(text: string): ExecutionEngine {
+    const { config, checkpoint } = parseEngineState(text);
+    const engine = new ExecutionEngine(config);
+    engine.restoreCheckpoint(checkpoint);
+    return engine;
   }
 
   /**
@@ -184,13 +1095,25 @@ export class ExecutionEngine {
    */
   getStats(): {
     cycle: number;
+    stallCycles: number; // Cycles before completion in which no warp issued
+    idleCycles: number; // Cycles with no blocks to run (multi-core)
     scheduler: ReturnType<ThreadScheduler['getStats']>;
+    memory: ReturnType<MemoryController['getStats']>;
+    sharedMemory: SharedMemoryStats;
     cache?: ReturnType<Cache['getStats']>;
+    l2?: ReturnType<Cache['getStats']>;
+    dram?: ReturnType<DRAM['getStats']>; // Bandwidth averaged over this engine's cycles
   } {
     return {
       cycle: this.cycle,
+      stallCycles: this.stallCycles,
+      idleCycles: this.idleCycles,
       scheduler: this.threadScheduler.getStats(),
+      memory: this.memoryController.getStats(),
+      sharedMemory: { ...this.sharedMemoryStats },
       cache: this.cache ? this.cache.getStats() : undefined,
+      l2: this.l2 ? this.l2.getStats() : undefined,
+      dram: this.dram ? this.dram.getStats(this.cycle) : undefined,
     };
   }
 
@@ -199,11 +1122,31 @@ export class ExecutionEngine {
    */
   reset(): void {
     this.cycle = 0;
+    this.stallCycles = 0;
+    this.idleCycles = 0;
+    this.faults = [];
+    this.halted = false;
+    this.sharedMemoryStats = { requests: 0, accesses: 0, bankConflicts: 0, conflictedRequests: 0 };
     this.threadScheduler.reset();
+    this.memoryController.reset();
+    this.pendingMemory.clear();
     this.registerFile.clearAll();
-    this.memory.fill(0);
+    this.blocks = [];
+    this.blocksById.clear();
+    this.blockStats.clear();
+    this.unfinishedBlocks.clear();
     if (this.cache) {
+      this.cache.invalidate();
       this.cache.resetStats();
     }
+    // Shared memory, L2 and DRAM are reset by the GPU that owns them
+    if (!this.sharesMemory) {
+      this.memory.fill(0);
+      if (this.l2) {
+        this.l2.invalidate();
+        this.l2.resetStats();
+      }
+      this.dram?.reset();
+    }
   }
 }
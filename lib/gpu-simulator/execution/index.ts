@@ -2,4 +2,34 @@
  * Execution Engine
  */
 
-export { ExecutionEngine, type ExecutionConfig } from './execution-engine';
+export {
+  ExecutionEngine,
+  buildGrid,
+  type ExecutionConfig,
+  type LaunchOptions,
+  type LaunchResult,
+  type BlockStats,
+  type ExecutionObserver,
+  type InstructionEvent,
+  type MemoryAccessEvent,
+  type MemoryResponseEvent,
+  type SharedMemoryAccessEvent,
+  type SharedMemoryStats,
+  type EngineCheckpoint,
+  type SharedMemorySystem,
+} from './execution-engine';
+export {
+  serializeEngineState,
+  parseEngineState,
+  SAVED_STATE_FORMAT,
+  SAVED_STATE_VERSION,
+  type SavedEngineState,
+} from './saved-state';
+export { BlockDispatcher } from './dispatcher';
+export { compareWarpSchedulers, type SchedulingPolicyResult } from './scheduler-comparison';
+export {
+  MultiCoreGPU,
+  type MultiCoreConfig,
+  type MultiCoreLaunchResult,
+  type CoreStats,
+} from './multi-core-gpu';
@@ -0,0 +1,239 @@
+/**
+ * Multi-Core GPU
+ * Ported from tiny-gpu's top-level gpu module: several compute cores
+ * sharing global memory, fed blocks by a dispatcher
+ *
+ * Each core has its own scheduler, register file, memory controller and
+ * L1; all cores share global memory, the L2 and the DRAM model. L1s are write-through so
+ * stores from one core reach the shared L2 without a coherence protocol.
+ */
+
+import type { Word } from '../types';
+import { createL2Cache } from '../memory/cache';
+import { createDRAM } from '../memory/dram';
+import { BlockDispatcher } from './dispatcher';
+import {
+  ExecutionEngine,
+  buildGrid,
+  type ExecutionConfig,
+  type LaunchOptions,
+  type LaunchResult,
+  type SharedMemorySystem,
+} from './execution-engine';
+
+export interface MultiCoreConfig extends ExecutionConfig {
+  numCores: number;
+  maxBlocksPerCore?: number; // Blocks resident on a core at once (default 1)
+}
+
+export interface MultiCoreLaunchResult extends LaunchResult {
+  coreBlocks: number[][]; // Block ids executed by each core, in dispatch order
+}
+
+export interface CoreStats {
+  core: number;
+  blocksExecuted: number;
+  instructions: number; // Thread-instructions executed
+  busyCycles: number;
+  idleCycles: number;
+  stats: ReturnType<ExecutionEngine['getStats']>;
+}
+
+export class MultiCoreGPU {
+  private config: MultiCoreConfig;
+  private shared: SharedMemorySystem;
+  private cores: ExecutionEngine[];
+  private dispatcher: BlockDispatcher;
+  private cycle: number = 0;
+  private maxCycles: number;
+
+  constructor(config: MultiCoreConfig) {
+    if (!Number.isInteger(config.numCores) || config.numCores < 1) {
+      throw new Error(`numCores must be a positive integer, got ${config.numCores}`);
+    }
+
+    this.config = config;
+    this.maxCycles = config.maxCycles || 1000000;
+    this.dispatcher = new BlockDispatcher(config.maxBlocksPerCore ?? 1);
+
+    const enableCache = config.enableCache !== false;
+    this.shared = {
+      memory: new Uint32Array(config.memory.globalMemorySize),
+      l2: enableCache ? createL2Cache(config.memory) : null,
+      dram: createDRAM(config.memory),
+    };
+
+    const coreConfig: ExecutionConfig = {
+      ...config,
+      memory: { ...config.memory, writePolicy: 'write-through' },
+    };
+    this.cores = Array.from(
+      { length: config.numCores },
+      () => new ExecutionEngine(coreConfig, this.shared)
+    );
+  }
+
+  /**
+   * Launch a kernel across all cores and run it to completion (or
+   * maxCycles). Resets all previous state.
+   */
+  launch(options: LaunchOptions): MultiCoreLaunchResult {
+    const { program, blocks } = buildGrid(options);
+
+    this.reset();
+    for (const core of this.cores) {
+      core.loadInstructions(program);
+    }
+    this.cores[0].loadMemory(options.memoryImage ?? []);
+    this.dispatcher.load(blocks, options.args);
+
+    while (!this.isComplete() && !this.isHalted() && this.cycle < this.maxCycles) {
+      this.executeCycle();
+    }
+
+    if (this.isComplete()) {
+      for (const core of this.cores) {
+        core.flushCaches();
+      }
+    }
+
+    return this.getLaunchResult();
+  }
+
+  /**
+   * Execute one GPU cycle: dispatch blocks to free cores, then advance
+   * every core by one cycle
+   */
+  executeCycle(): void {
+    this.dispatcher.dispatch(this.cores);
+
+    for (const core of this.cores) {
+      if (core.isComplete()) {
+        core.idleCycle();
+      } else {
+        core.executeCycle();
+      }
+    }
+
+    this.cycle++;
+  }
+
+  /**
+   * Check whether every block has been dispatched and has finished
+   */
+  isComplete(): boolean {
+    return this.dispatcher.isDone() && this.cores.every((core) => core.isComplete());
+  }
+
+  /**
+   * Check whether a trap-stop fault on any core halted the kernel
+   */
+  isHalted(): boolean {
+    return this.cores.some((core) => core.isHalted());
+  }
+
+  /**
+   * Result of the current launch so far
+   */
+  getLaunchResult(): MultiCoreLaunchResult {
+    const assignments = this.dispatcher.getAssignments();
+    const coreBlocks: number[][] = this.cores.map(() => []);
+    for (const [blockId, core] of assignments) {
+      coreBlocks[core].push(blockId);
+    }
+
+    const blocks = this.cores
+      .flatMap((core) => core.getLaunchResult().blocks)
+      .sort((a, b) => a.blockId - b.blockId);
+
+    return {
+      memory: Array.from(this.shared.memory),
+      cycles: this.cycle,
+      completed: this.isComplete() && !this.isHalted(),
+      blocks,
+      faults: this.cores
+        .flatMap((core) => core.getFaults())
+        .sort((a, b) => a.cycle - b.cycle || a.threadId - b.threadId),
+      coreBlocks,
+    };
+  }
+
+  /**
+   * Get a core, e.g. to attach an observer
+   */
+  getCore(index: number): ExecutionEngine {
+    const core = this.cores[index];
+    if (!core) {
+      throw new Error(`Core ${index} does not exist (GPU has ${this.cores.length} cores)`);
+    }
+    return core;
+  }
+
+  /**
+   * Get memory snapshot
+   */
+  getMemory(): Word[] {
+    return Array.from(this.shared.memory);
+  }
+
+  /**
+   * Get the current cycle
+   */
+  getCycle(): number {
+    return this.cycle;
+  }
+
+  /**
+   * Get per-core and whole-GPU statistics
+   */
+  getStats(): {
+    cycle: number;
+    cores: CoreStats[];
+    instructions: number;
+    utilization: number; // Busy core-cycles / total core-cycles
+    l2?: ReturnType<ExecutionEngine['getStats']>['l2'];
+    dram?: ReturnType<ExecutionEngine['getStats']>['dram'];
+  } {
+    const cores = this.cores.map((core, index): CoreStats => {
+      const stats = core.getStats();
+      const blocks = core.getLaunchResult().blocks;
+      return {
+        core: index,
+        blocksExecuted: blocks.length,
+        instructions: blocks.reduce((sum, block) => sum + block.instructions, 0),
+        busyCycles: stats.cycle - stats.idleCycles,
+        idleCycles: stats.idleCycles,
+        stats,
+      };
+    });
+
+    const coreCycles = this.cycle * this.cores.length;
+    const busyCycles = cores.reduce((sum, core) => sum + core.busyCycles, 0);
+
+    return {
+      cycle: this.cycle,
+      cores,
+      instructions: cores.reduce((sum, core) => sum + core.instructions, 0),
+      utilization: coreCycles > 0 ? busyCycles / coreCycles : 0,
+      l2: this.shared.l2 ? this.shared.l2.getStats() : undefined,
+      dram: this.shared.dram ? this.shared.dram.getStats(this.cycle) : undefined,
+    };
+  }
+
+  /**
+   * Reset all cores, global memory, the L2 and the DRAM model
+   */
+  reset(): void {
+    this.cycle = 0;
+    for (const core of this.cores) {
+      core.reset();
+    }
+    this.shared.memory.fill(0);
+    if (this.shared.l2) {
+      this.shared.l2.invalidate();
+      this.shared.l2.resetStats();
+    }
+    this.shared.dram?.reset();
+    this.dispatcher.load([]);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Saved Engine State
+ * Versioned JSON format for a complete engine checkpoint plus the
+ * configuration needed to rebuild the engine, so a run can be saved,
+ * shared in a bug report and resumed later
+ */
+
+import type { ExecutionConfig, EngineCheckpoint } from './execution-engine';
+
+export const SAVED_STATE_FORMAT = 'tiny-gpu-engine-state';
+export const SAVED_STATE_VERSION = 1;
+
+export interface SavedEngineState {
+  format: typeof SAVED_STATE_FORMAT;
+  version: number;
+  config: ExecutionConfig;
+  checkpoint: EngineCheckpoint;
+}
+
+/**
+ * Checkpoint fields every saved state must carry
+ */
+const CHECKPOINT_FIELDS: (keyof EngineCheckpoint)[] = [
+  'cycle',
+  'stallCycles',
+  'program',
+  'memory',
+  'blocks',
+  'blockStats',
+  'pendingMemory',
+  'registerFile',
+  'scheduler',
+  'memoryController',
+  'cache',
+  'l2',
+  'dram',
+  'faults',
+  'halted',
+  'sharedMemoryStats',
+];
+
+/**
+ * Serialize a configuration and checkpoint to JSON
+ * Throws for a custom warp scheduling policy, which cannot be saved.
+ */
+export function serializeEngineState(config: ExecutionConfig, checkpoint: EngineCheckpoint): string {
+  if (typeof config.warpScheduler === 'function') {
+    throw new Error('Cannot save the state of an engine with a custom warp scheduling policy');
+  }
+  const state: SavedEngineState = {
+    format: SAVED_STATE_FORMAT,
+    version: SAVED_STATE_VERSION,
+    config,
+    checkpoint,
+  };
+  return JSON.stringify(state);
+}
+
+/**
+ * Parse and validate a saved state
+ */
+export function parseEngineState(text: string): SavedEngineState {
+  let state: Partial<SavedEngineState>;
+  try {
+    state = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Saved state is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!state || typeof state !== 'object' || state.format !== SAVED_STATE_FORMAT) {
+    throw new Error(`Not a saved engine state (expected format "${SAVED_STATE_FORMAT}")`);
+  }
+  if (!Number.isInteger(state.version) || state.version! < 1) {
+    throw new Error(`Invalid saved state version: ${state.version}`);
+  }
+  if (state.version! > SAVED_STATE_VERSION) {
+    throw new Error(
+      `Saved state version ${state.version} is newer than the supported version ${SAVED_STATE_VERSION}`
+    );
+  }
+  if (!state.config || typeof state.config.memory !== 'object') {
+    throw new Error('Saved state has no engine configuration');
+  }
+  const checkpoint = state.checkpoint as Partial<EngineCheckpoint> | undefined;
+  const missing = CHECKPOINT_FIELDS.filter((field) => checkpoint?.[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Saved state checkpoint is missing ${missing.join(', ')}`);
+  }
+
+  return state as SavedEngineState;
+}
@@ -0,0 +1,43 @@
+/**
+ * Scheduler Comparison
+ * Runs one kernel under several warp scheduling policies
+ */
+
+import type { WarpSchedulingPolicyName } from '../types';
+import { ExecutionEngine, type ExecutionConfig, type LaunchOptions } from './execution-engine';
+
+export interface SchedulingPolicyResult {
+  policy: WarpSchedulingPolicyName;
+  cycles: number;
+  completed: boolean;
+  stats: ReturnType<ExecutionEngine['getStats']>;
+}
+
+const ALL_POLICIES: WarpSchedulingPolicyName[] = [
+  'round-robin',
+  'loose-round-robin',
+  'greedy-then-oldest',
+  'two-level',
+];
+
+/**
+ * Launch the same kernel on a fresh engine per policy and collect the
+ * statistics side by side (the kernel's output must not depend on the
+ * issue order for the runs to be comparable)
+ */
+export function compareWarpSchedulers(
+  config: ExecutionConfig,
+  options: LaunchOptions,
+  policies: WarpSchedulingPolicyName[] = ALL_POLICIES
+): SchedulingPolicyResult[] {
+  return policies.map((policy) => {
+    const engine = new ExecutionEngine({ ...config, warpScheduler: policy });
+    const result = engine.launch(options);
+    return {
+      policy,
+      cycles: result.cycles,
+      completed: result.completed,
+      stats: engine.getStats(),
+    };
+  });
+}
@@ -0,0 +1,311 @@
+/**
+ * Differential Fuzzer
+ * Runs generated kernels on ExecutionEngine and on the reference
+ * interpreter, compares final memory and registers, and shrinks any
+ * mismatch to a minimal failing case
+ */
+
+import type { Word, Instruction } from '../types';
+import { ExecutionEngine } from '../execution/execution-engine';
+import { NUM_REGISTERS } from '../core/register-file';
+import { InstructionEncoder } from '../instruction-set/encoder';
+import { Disassembler } from '../instruction-set/disassembler';
+import { runReference } from './reference-interpreter';
+import { generateFuzzCase, type FuzzCase, type FuzzGeneratorOptions } from './program-generator';
+
+export interface DifferentialResult {
+  valid: boolean; // The reference finished without a data race, so the case is meaningful
+  reason: string | null; // Why an invalid case was discarded
+  mismatches: string[]; // Differences between engine and reference (at most maxMismatches)
+  cycles: number; // Engine cycles
+  steps: number; // Reference thread-instructions
+}
+
+export interface DifferentialOptions {
+  maxSteps?: number; // Reference step budget (default 1,000,000)
+  maxMismatches?: number; // Differences to report (default 10)
+}
+
+export interface FuzzOptions extends DifferentialOptions {
+  seed?: number; // First case seed; case i uses seed + i (default 1)
+  runs?: number; // Cases to generate (default 100)
+  generator?: FuzzGeneratorOptions;
+  shrink?: boolean; // Shrink failing cases (default true)
+  maxShrinkRuns?: number; // Differential runs per shrink (default 1000)
+  maxFailures?: number; // Stop after this many failing cases (default 1)
+  onCase?: (fuzzCase: FuzzCase, result: DifferentialResult) => void;
+}
+
+export interface FuzzFailure {
+  original: FuzzCase;
+  shrunk: FuzzCase;
+  mismatches: string[]; // Of the shrunk case
+  report: string; // Reproducer for a bug report (see formatFuzzCase)
+}
+
+export interface FuzzReport {
+  runs: number;
+  valid: number; // Runs whose case was valid and compared
+  discarded: number; // Runs whose case was invalid
+  failures: FuzzFailure[];
+}
+
+const BRANCH_OPCODES = new Set(['BR', 'BRz', 'BRnz', 'BRn', 'BRp', 'JOIN']);
+
+const encoder = new InstructionEncoder();
+
+/**
+ * Encode a fuzz case's program into instruction words
+ */
+export function encodeFuzzProgram(fuzzCase: FuzzCase): Word[] {
+  return fuzzCase.program.map((instruction) => encoder.encode(instruction));
+}
+
+/**
+ * Run one case on both the engine and the reference and compare the
+ * final global memory and every thread's registers
+ */
+export function runDifferential(
+  fuzzCase: FuzzCase,
+  options: DifferentialOptions = {}
+): DifferentialResult {
+  const { gridDim, blockDim, memoryImage, args, config } = fuzzCase;
+  const program = encodeFuzzProgram(fuzzCase);
+  const maxMismatches = options.maxMismatches ?? 10;
+  const result: DifferentialResult = { valid: false, reason: null, mismatches: [], cycles: 0, steps: 0 };
+
+  let reference;
+  try {
+    reference = runReference({
+      program,
+      gridDim,
+      blockDim,
+      memorySize: config.memory.globalMemorySize,
+      sharedMemorySize: config.sharedMemorySize,
+      memoryImage,
+      args,
+      branchMode: config.branchMode,
+      maxSteps: options.maxSteps,
+    });
+  } catch (error) {
+    result.reason = `reference failed: ${(error as Error).message}`;
+    return result;
+  }
+  result.steps = reference.steps;
+  if (!reference.completed) {
+    result.reason = `reference did not finish within ${reference.steps} steps`;
+    return result;
+  }
+  if (reference.race) {
+    result.reason = `data race on ${reference.race}`;
+    return result;
+  }
+  result.valid = true;
+
+  const report = (message: string) => {
+    if (result.mismatches.length < maxMismatches) {
+      result.mismatches.push(message);
+    }
+  };
+  const hex = (value: Word) => `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+
+  const engine = new ExecutionEngine(config);
+  let launch;
+  try {
+    launch = engine.launch({ program, gridDim, blockDim, memoryImage, args });
+  } catch (error) {
+    report(`engine threw: ${(error as Error).message}`);
+    return result;
+  }
+  result.cycles = launch.cycles;
+  if (!launch.completed) {
+    report(`engine did not complete within ${launch.cycles} cycles`);
+  }
+
+  launch.memory.forEach((value, address) => {
+    if (value !== reference.memory[address]) {
+      report(`memory[${address}]: engine ${hex(value)}, reference ${hex(reference.memory[address])}`);
+    }
+  });
+  for (const thread of engine.getState().threads) {
+    const expected = reference.registers[thread.id];
+    for (let reg = 0; reg < NUM_REGISTERS; reg++) {
+      if (thread.registers[reg] !== expected[reg]) {
+        const values = `engine ${hex(thread.registers[reg])}, reference ${hex(expected[reg])}`;
+        report(`thread ${thread.id} R${reg}: ${values}`);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Greedily shrink a failing case: fewer blocks and threads, fewer
+ * instructions, a zeroed memory image, fewer arguments and a simpler
+ * engine configuration, keeping each step only if the case stays valid
+ * and still mismatches
+ */
+export function shrinkFuzzCase(
+  fuzzCase: FuzzCase,
+  options: DifferentialOptions & { maxRuns?: number } = {}
+): FuzzCase {
+  let budget = options.maxRuns ?? 1000;
+  let current = fuzzCase;
+
+  const fails = (candidate: FuzzCase): boolean => {
+    if (budget <= 0 || !joinsPrecedeBranches(candidate.program)) return false;
+    budget--;
+    const result = runDifferential(candidate, { ...options, maxMismatches: 1 });
+    return result.valid && result.mismatches.length > 0;
+  };
+  const attempt = (candidate: FuzzCase): boolean => {
+    if (fails(candidate)) {
+      current = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  let progress = true;
+  while (progress && budget > 0) {
+    progress = false;
+
+    for (const key of ['gridDim', 'blockDim'] as const) {
+      for (const size of [1, Math.floor(current[key] / 2), current[key] - 1]) {
+        if (size >= 1 && size < current[key] && attempt({ ...current, [key]: size })) {
+          progress = true;
+        }
+      }
+    }
+
+    // Remove chunks of instructions, largest first
+    for (let chunk = Math.max(1, current.program.length >> 1); chunk >= 1; chunk >>= 1) {
+      for (let start = current.program.length - chunk; start >= 0; start -= chunk) {
+        if (attempt({ ...current, program: removeInstructions(current.program, start, chunk) })) {
+          progress = true;
+        }
+      }
+    }
+
+    // Zero chunks of the memory image
+    for (let chunk = current.memoryImage.length; chunk >= 1; chunk >>= 1) {
+      for (let start = 0; start < current.memoryImage.length; start += chunk) {
+        const image = current.memoryImage;
+        if (image.slice(start, start + chunk).every((value) => value === 0)) continue;
+        const zeroed = image.map((value, address) => (address >= start && address < start + chunk ? 0 : value));
+        if (attempt({ ...current, memoryImage: zeroed })) {
+          progress = true;
+        }
+      }
+    }
+
+    while (current.args.length > 0 && attempt({ ...current, args: current.args.slice(0, -1) })) {
+      progress = true;
+    }
+
+    const { config } = current;
+    const simpler = [
+      { ...config, enableCache: false },
+      { ...config, memory: { ...config.memory, l2: undefined } },
+      { ...config, warpScheduler: undefined, activeWarps: undefined },
+      { ...config, warpSize: 1 },
+    ];
+    for (const candidate of simpler) {
+      const changed = JSON.stringify(candidate) !== JSON.stringify(current.config);
+      if (changed && attempt({ ...current, config: candidate })) {
+        progress = true;
+      }
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Remove `count` instructions starting at `start`, retargeting relative
+ * branches so they still reach the same surviving instruction (a branch
+ * into the removed range lands just after it)
+ */
+function removeInstructions(program: Instruction[], start: number, count: number): Instruction[] {
+  const end = start + count;
+  const shift = (pc: number) => (pc >= end ? pc - count : pc > start ? start : pc);
+
+  const result: Instruction[] = [];
+  program.forEach((instruction, pc) => {
+    if (pc >= start && pc < end) return;
+    if (BRANCH_OPCODES.has(instruction.opcode) && instruction.immediate !== undefined) {
+      const target = pc + instruction.immediate;
+      result.push({ ...instruction, immediate: shift(target) - shift(pc) });
+    } else {
+      result.push(instruction);
+    }
+  });
+  return result;
+}
+
+/**
+ * Whether every JOIN still sits directly before the conditional branch
+ * it was generated for; a JOIN left over from a removed branch would
+ * name a bogus reconvergence point for some later branch
+ */
+function joinsPrecedeBranches(program: Instruction[]): boolean {
+  return program.every(
+    (instruction, pc) =>
+      instruction.opcode !== 'JOIN' ||
+      (BRANCH_OPCODES.has(program[pc + 1]?.opcode) && program[pc + 1].opcode !== 'JOIN')
+  );
+}
+
+/**
+ * Describe a case as a reproducer: launch parameters, engine
+ * configuration, disassembly and the non-zero words of the memory image
+ */
+export function formatFuzzCase(fuzzCase: FuzzCase, mismatches: string[] = []): string {
+  const { seed, gridDim, blockDim, args, memoryImage, config } = fuzzCase;
+  const lines = [
+    `; seed ${seed}: gridDim ${gridDim}, blockDim ${blockDim}, args [${args.join(', ')}]`,
+    `; config ${JSON.stringify(config)}`,
+    ...mismatches.map((mismatch) => `; mismatch: ${mismatch}`),
+    new Disassembler().disassemble(encodeFuzzProgram(fuzzCase)),
+    '; memory image',
+  ];
+  memoryImage.forEach((value, address) => {
+    if (value !== 0) {
+      lines.push(`; [${address}] = 0x${(value >>> 0).toString(16).padStart(8, '0')}`);
+    }
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Generate and compare `runs` cases, shrinking each failure
+ */
+export function fuzzSimulator(options: FuzzOptions = {}): FuzzReport {
+  const { seed = 1, runs = 100, shrink = true, maxFailures = 1 } = options;
+  const report: FuzzReport = { runs: 0, valid: 0, discarded: 0, failures: [] };
+
+  for (let i = 0; i < runs && report.failures.length < maxFailures; i++) {
+    const fuzzCase = generateFuzzCase(seed + i, options.generator);
+    const result = runDifferential(fuzzCase, options);
+    options.onCase?.(fuzzCase, result);
+    report.runs++;
+
+    if (!result.valid) {
+      report.discarded++;
+      continue;
+    }
+    report.valid++;
+    if (result.mismatches.length === 0) continue;
+
+    const shrunk = shrink ? shrinkFuzzCase(fuzzCase, { ...options, maxRuns: options.maxShrinkRuns }) : fuzzCase;
+    const mismatches = shrunk === fuzzCase ? result.mismatches : runDifferential(shrunk, options).mismatches;
+    report.failures.push({
+      original: fuzzCase,
+      shrunk,
+      mismatches,
+      report: formatFuzzCase(shrunk, mismatches),
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,18 @@
+/**
+ * Differential Fuzzing
+ */
+
+export {
+  runDifferential,
+  shrinkFuzzCase,
+  formatFuzzCase,
+  fuzzSimulator,
+  encodeFuzzProgram,
+  type DifferentialResult,
+  type DifferentialOptions,
+  type FuzzOptions,
+  type FuzzFailure,
+  type FuzzReport,
+} from './differential-fuzzer';
+export { generateFuzzCase, type FuzzCase, type FuzzGeneratorOptions } from './program-generator';
+export { runReference, type ReferenceOptions, type ReferenceResult } from './reference-interpreter';
@@ -0,0 +1,449 @@
+/**
+ * Fuzz Program Generator
+ * Builds random, valid and race-free tiny-gpu kernels with random memory
+ * images and engine configurations, reproducible from a seed
+ *
+ * Register conventions of generated programs:
+ * - R0-R8:  data (R0/R1 first hold the output base and slot count args)
+ * - R9:     address and comparison scratch
+ * - R10:    loop counter
+ * - R11:    base of the thread's own output slots
+ * - R12:    global thread id
+ * Loads read the input region or the thread's own slots, stores only
+ * write the thread's own slots, and shared memory alternates between
+ * phases of own-slot writes and free reads separated by SYNC, so the
+ * final state does not depend on the issue order.
+ */
+
+import type {
+  Word,
+  Instruction,
+  BranchMode,
+  WarpSchedulingPolicyName,
+  ReplacementPolicy,
+  FaultKind,
+  FaultAction,
+} from '../types';
+import type { ExecutionConfig } from '../execution/execution-engine';
+import { floatToBits } from '../core/execution-unit';
+
+/**
+ * A generated kernel launch together with the engine configuration it runs on
+ */
+export interface FuzzCase {
+  seed: number;
+  program: Instruction[];
+  gridDim: number;
+  blockDim: number;
+  memoryImage: Word[];
+  args: Word[];
+  config: ExecutionConfig;
+}
+
+export interface FuzzGeneratorOptions {
+  maxStatements?: number; // Top-level statements per program (default 24)
+  maxDepth?: number; // Nesting of ifs and loops (default 2)
+  maxGridDim?: number; // Default 4
+  maxBlockDim?: number; // Default 40, so blocks can span several warps
+}
+
+const INPUT_SIZE = 64; // Input region at address 0
+const INPUT_MASK = 31; // Load index mask; loads add an offset of at most INPUT_SIZE - INPUT_MASK - 1
+const OUTPUT_BASE = INPUT_SIZE;
+const DATA_REGISTERS = 9; // R0-R8
+const SCRATCH = 9;
+const LOOP_COUNTER = 10;
+const OUTPUT = 11;
+const THREAD_ID = 12;
+
+const ALU_OPS = ['ADD', 'SUB', 'MUL', 'DIV', 'AND', 'OR', 'XOR', 'SHL', 'SHR', 'SRA'];
+const ALU_IMMEDIATE_OPS = ['ADDI', 'MULI', 'ANDI', 'ORI', 'XORI', 'SHLI', 'SHRI', 'SRAI'];
+const FLOAT_OPS = ['FADD', 'FSUB', 'FMUL', 'FDIV', 'FMA', 'FMAX'];
+const FLOAT_UNARY_OPS = ['ITOF', 'FTOI', 'FEXP'];
+const CONDITIONAL_BRANCHES = ['BRz', 'BRnz', 'BRn', 'BRp'];
+const POLICIES: WarpSchedulingPolicyName[] = [
+  'round-robin',
+  'loose-round-robin',
+  'greedy-then-oldest',
+  'two-level',
+];
+const REPLACEMENT_POLICIES: ReplacementPolicy[] = ['lru', 'fifo', 'random'];
+const FAULT_KINDS: FaultKind[] = [
+  'global-out-of-bounds',
+  'shared-out-of-bounds',
+  'divide-by-zero',
+  'illegal-instruction',
+  'pc-out-of-range',
+  'read-only-register',
+  'barrier-deadlock',
+];
+
+/**
+ * Deterministic xorshift PRNG
+ */
+class FuzzRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = (seed ^ 0x9e3779b9) >>> 0 || 1;
+  }
+
+  /**
+   * Next 32-bit unsigned value
+   */
+  next(): number {
+    let x = this.state;
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    this.state = x >>> 0;
+    return this.state;
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return min + (this.next() % (max - min + 1));
+  }
+
+  /**
+   * True with probability p
+   */
+  chance(p: number): boolean {
+    return this.next() / 0x100000000 < p;
+  }
+
+  /**
+   * Random element of a list
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.next() % items.length];
+  }
+
+  /**
+   * Interesting 32-bit word: small ints, extremes, floats or random bits
+   */
+  word(): Word {
+    switch (this.int(0, 4)) {
+      case 0:
+        return this.int(0, 16);
+      case 1:
+        return this.int(-16, 16) >>> 0;
+      case 2:
+        return this.pick([0x7fffffff, 0x80000000, 0xffffffff, 0x7fc00000, 0x7f800000, 1]);
+      case 3:
+        return floatToBits((this.int(-1000, 1000) / 8) * (this.chance(0.5) ? 1 : 1e6));
+      default:
+        return this.next();
+    }
+  }
+}
+
+/**
+ * Shared memory phase of the statement being generated
+ * - write: threads store to and load from their own slots only
+ * - read:  threads load any slot and store nothing
+ */
+type SharedPhase = 'write' | 'read';
+
+interface GeneratorState {
+  random: FuzzRandom;
+  branchMode: BranchMode;
+  outputSlots: number; // Global output words per thread
+  sharedSlots: number; // Shared words per thread
+  sharedMask: number; // sharedMemorySize - 1
+  phase: SharedPhase;
+  maxDepth: number;
+}
+
+/**
+ * Generate the fuzz case for a seed
+ */
+export function generateFuzzCase(seed: number, options: FuzzGeneratorOptions = {}): FuzzCase {
+  const random = new FuzzRandom(seed);
+  const gridDim = random.int(1, options.maxGridDim ?? 4);
+  const blockDim = random.int(1, options.maxBlockDim ?? 40);
+  const threads = gridDim * blockDim;
+  const outputSlots = random.int(1, 4);
+  const sharedSlots = random.int(1, 2);
+  let sharedMemorySize = 1;
+  while (sharedMemorySize < blockDim * sharedSlots) {
+    sharedMemorySize *= 2;
+  }
+
+  const state: GeneratorState = {
+    random,
+    branchMode: random.chance(0.8) ? 'nzp' : 'register',
+    outputSlots,
+    sharedSlots,
+    sharedMask: sharedMemorySize - 1,
+    phase: 'write',
+    maxDepth: options.maxDepth ?? 2,
+  };
+
+  // Global thread id and output base
+  const program: Instruction[] = [
+    { opcode: 'MUL', rd: THREAD_ID, rs1: 13, rs2: 14 },
+    { opcode: 'ADD', rd: THREAD_ID, rs1: THREAD_ID, rs2: 15 },
+    { opcode: 'MUL', rd: OUTPUT, rs1: THREAD_ID, rs2: 1 },
+    { opcode: 'ADD', rd: OUTPUT, rs1: OUTPUT, rs2: 0 },
+  ];
+  const statements = random.int(1, options.maxStatements ?? 24);
+  for (let i = 0; i < statements; i++) {
+    program.push(...generateStatement(state, state.maxDepth, true, false));
+  }
+  program.push({ opcode: 'RET' });
+
+  const memoryImage: Word[] = [];
+  for (let i = 0; i < OUTPUT_BASE + threads * outputSlots; i++) {
+    memoryImage.push(i < INPUT_SIZE || random.chance(0.25) ? random.word() : 0);
+  }
+  const args: Word[] = [OUTPUT_BASE, outputSlots];
+  const extraArgs = random.int(0, DATA_REGISTERS - 2);
+  for (let i = 0; i < extraArgs; i++) {
+    args.push(random.word());
+  }
+
+  return {
+    seed,
+    program,
+    gridDim,
+    blockDim,
+    memoryImage,
+    args,
+    config: generateConfig(random, state.branchMode, memoryImage.length, sharedMemorySize),
+  };
+}
+
+/**
+ * Random engine configuration: cache geometry and policies, optional L2,
+ * warp size and scheduler; every fault is ignored so that out-of-bounds
+ * accesses in shrunk programs still run to completion
+ */
+function generateConfig(
+  random: FuzzRandom,
+  branchMode: BranchMode,
+  memoryWords: number,
+  sharedMemorySize: number
+): ExecutionConfig {
+  const lineSize = random.pick([1, 2, 4, 8]);
+  const cacheSize = random.pick([1, 2, 4, 8, 16]);
+  const latency = random.int(1, 12);
+  const faults: Partial<Record<FaultKind, FaultAction>> = {};
+  for (const kind of FAULT_KINDS) {
+    faults[kind] = 'ignore';
+  }
+
+  return {
+    memory: {
+      globalMemorySize: Math.ceil(memoryWords / 8) * 8,
+      cacheSize,
+      lineSize,
+      latency,
+      cacheHitLatency: random.int(1, 3),
+      associativity: random.pick([1, 2, cacheSize].filter((ways) => cacheSize % ways === 0)),
+      replacementPolicy: random.pick(REPLACEMENT_POLICIES),
+      writePolicy: random.chance(0.5) ? 'write-back' : 'write-through',
+      writeAllocate: random.chance(0.7),
+      l2: random.chance(0.3)
+        ? {
+            cacheSize: cacheSize * 4,
+            hitLatency: random.int(1, latency),
+            associativity: random.pick([1, 2, 4]),
+          }
+        : undefined,
+      dram: random.chance(0.3)
+        ? {
+            channels: random.pick([1, 2, 4]),
+            banksPerChannel: random.pick([1, 2, 8]),
+            rowSize: lineSize * random.pick([1, 4, 16]),
+            pagePolicy: random.chance(0.5) ? 'open' : 'closed',
+            rowHitLatency: random.int(1, 4),
+            rowMissLatency: random.int(4, 16),
+            rowEmptyLatency: random.int(2, 12),
+            wordsPerCycle: random.chance(0.5) ? random.pick([1, 2, 4]) : undefined,
+          }
+        : undefined,
+    },
+    enableCache: random.chance(0.8),
+    warpSize: random.pick([1, 2, 4, 8, 32]),
+    sharedMemorySize,
+    branchMode,
+    warpScheduler: random.pick(POLICIES),
+    activeWarps: random.int(1, 4),
+    maxCycles: 1_000_000,
+    faults,
+  };
+}
+
+/**
+ * Generate one statement; `topLevel` statements may contain SYNC, which
+ * must be reached by all threads of a block together
+ */
+function generateStatement(
+  state: GeneratorState,
+  depth: number,
+  topLevel: boolean,
+  inLoop: boolean
+): Instruction[] {
+  const { random } = state;
+  const dst = () => random.int(0, DATA_REGISTERS - 1);
+  const src = () => random.int(0, 15);
+
+  for (;;) {
+    switch (random.int(0, 12)) {
+      case 0:
+      case 1:
+        return [{ opcode: random.pick(ALU_OPS), rd: dst(), rs1: src(), rs2: src() }];
+
+      case 2: {
+        const opcode = random.pick(ALU_IMMEDIATE_OPS);
+        const shift = opcode.startsWith('SH') || opcode === 'SRAI';
+        const immediate = shift
+          ? random.int(0, 31)
+          : random.chance(0.7)
+            ? random.int(-64, 64)
+            : random.int(-32768, 32767);
+        return [{ opcode, rd: dst(), rs1: src(), immediate }];
+      }
+
+      case 3:
+        return random.chance(0.5)
+          ? [{ opcode: 'CONST', rd: dst(), immediate: random.int(-32768, 32767) }]
+          : [{ opcode: 'MOV', rd: dst(), rs1: src() }];
+
+      case 4:
+        return random.chance(0.6)
+          ? [{ opcode: random.pick(FLOAT_OPS), rd: dst(), rs1: src(), rs2: src() }]
+          : [{ opcode: random.pick(FLOAT_UNARY_OPS), rd: dst(), rs1: src() }];
+
+      case 5:
+      case 6:
+        if (random.chance(0.75)) {
+          return [
+            { opcode: 'ANDI', rd: SCRATCH, rs1: src(), immediate: INPUT_MASK },
+            { opcode: 'LDR', rd: dst(), rs1: SCRATCH, immediate: random.int(0, INPUT_SIZE - INPUT_MASK - 1) },
+          ];
+        }
+        return [{ opcode: 'LDR', rd: dst(), rs1: OUTPUT, immediate: random.int(0, state.outputSlots - 1) }];
+
+      case 7:
+      case 8:
+        return [
+          { opcode: 'ADDI', rd: SCRATCH, rs1: OUTPUT, immediate: random.int(0, state.outputSlots - 1) },
+          { opcode: 'STR', rs1: SCRATCH, rs2: src() },
+        ];
+
+      case 9:
+        return generateSharedAccess(state);
+
+      case 10:
+        if (!topLevel) continue;
+        // Switch phases only at a barrier
+        state.phase = random.chance(0.5) ? 'write' : 'read';
+        return [{ opcode: 'SYNC' }];
+
+      case 11:
+        if (depth === 0) continue;
+        return generateIf(state, depth, inLoop);
+
+      default:
+        if (depth === 0 || inLoop) continue;
+        return generateLoop(state, depth);
+    }
+  }
+}
+
+/**
+ * LDS or STS that respects the current shared memory phase
+ */
+function generateSharedAccess(state: GeneratorState): Instruction[] {
+  const { random, sharedSlots } = state;
+  const ownSlot: Instruction = { opcode: 'MULI', rd: SCRATCH, rs1: 15, immediate: sharedSlots };
+  const slot = random.int(0, sharedSlots - 1);
+
+  if (state.phase === 'read') {
+    return [
+      { opcode: 'ANDI', rd: SCRATCH, rs1: random.int(0, 15), immediate: state.sharedMask },
+      { opcode: 'LDS', rd: random.int(0, DATA_REGISTERS - 1), rs1: SCRATCH, immediate: 0 },
+    ];
+  }
+  if (random.chance(0.6)) {
+    return [
+      ownSlot,
+      { opcode: 'ADDI', rd: SCRATCH, rs1: SCRATCH, immediate: slot },
+      { opcode: 'STS', rs1: SCRATCH, rs2: random.int(0, 15) },
+    ];
+  }
+  return [ownSlot, { opcode: 'LDS', rd: random.int(0, DATA_REGISTERS - 1), rs1: SCRATCH, immediate: slot }];
+}
+
+/**
+ * Forward conditional branch around a body, with an optional else part
+ * and an optional JOIN naming the merge point
+ */
+function generateIf(state: GeneratorState, depth: number, inLoop: boolean): Instruction[] {
+  const { random } = state;
+  const body = (): Instruction[] => {
+    const instructions: Instruction[] = [];
+    const count = random.int(1, 4);
+    for (let i = 0; i < count; i++) {
+      instructions.push(...generateStatement(state, depth - 1, false, inLoop));
+    }
+    return instructions;
+  };
+
+  const condition: Instruction[] = [];
+  const branch: Instruction = { opcode: random.pick(CONDITIONAL_BRANCHES) };
+  if (state.branchMode === 'nzp') {
+    const opcode = random.chance(0.8) ? 'CMP' : 'FCMP';
+    condition.push({ opcode, rs1: random.int(0, 15), rs2: random.int(0, 15) });
+  } else {
+    branch.rs1 = random.int(0, 15);
+  }
+
+  const thenPart = body();
+  const elsePart = random.chance(0.4) ? body() : [];
+  if (elsePart.length > 0) {
+    thenPart.push({ opcode: 'BR', immediate: elsePart.length + 1 });
+  }
+  branch.immediate = thenPart.length + 1;
+
+  const join: Instruction[] = random.chance(0.3)
+    ? [{ opcode: 'JOIN', immediate: 1 + thenPart.length + elsePart.length + 1 }]
+    : [];
+  // JOIN sits right before the branch, so its target is past both parts
+  return [...condition, ...join, branch, ...thenPart, ...elsePart];
+}
+
+/**
+ * Counted loop running 1-4 times, the count taken from data so that
+ * lanes of a warp can leave at different iterations
+ */
+function generateLoop(state: GeneratorState, depth: number): Instruction[] {
+  const { random } = state;
+  const body: Instruction[] = [];
+  const count = random.int(1, 4);
+  for (let i = 0; i < count; i++) {
+    body.push(...generateStatement(state, depth - 1, false, true));
+  }
+  body.push({ opcode: 'ADDI', rd: LOOP_COUNTER, rs1: LOOP_COUNTER, immediate: -1 });
+
+  const back: Instruction[] =
+    state.branchMode === 'nzp'
+      ? [
+          { opcode: 'CONST', rd: SCRATCH, immediate: 0 },
+          { opcode: 'CMP', rs1: LOOP_COUNTER, rs2: SCRATCH },
+        ]
+      : [];
+  back.push({ opcode: 'BRp', rs1: LOOP_COUNTER, immediate: -(body.length + back.length) });
+
+  return [
+    { opcode: 'ANDI', rd: LOOP_COUNTER, rs1: random.int(0, 15), immediate: 3 },
+    { opcode: 'ADDI', rd: LOOP_COUNTER, rs1: LOOP_COUNTER, immediate: 1 },
+    ...body,
+    ...back,
+  ];
+}
+
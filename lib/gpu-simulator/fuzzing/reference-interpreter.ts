@@ -0,0 +1,369 @@
+/**
+ * Reference Interpreter
+ * Straightforward model of the tiny-gpu ISA with no warps, scheduler,
+ * cache or memory latency, used as the oracle for differential fuzzing
+ *
+ * Threads run one at a time until they return or reach a SYNC; a block's
+ * barrier opens once all its running threads have arrived. This matches
+ * the engine only for race-free programs, so every global and shared
+ * memory access is checked and the first data race is reported.
+ */
+
+import type { Word, Address, BranchMode, Instruction } from '../types';
+import {
+  isReadOnlyRegister,
+  NUM_REGISTERS,
+  BLOCK_IDX_REGISTER,
+  BLOCK_DIM_REGISTER,
+  THREAD_IDX_REGISTER,
+  NZP_NEGATIVE,
+  NZP_ZERO,
+  NZP_POSITIVE,
+} from '../core/register-file';
+import { applyALU, applyFloat, bitsToFloat } from '../core/execution-unit';
+import { InstructionDecoder } from '../instruction-set/decoder';
+
+export interface ReferenceOptions {
+  program: Word[];
+  gridDim: number;
+  blockDim: number;
+  memorySize: number; // Global memory words
+  sharedMemorySize?: number; // Shared memory words per block (default 256)
+  memoryImage?: Word[];
+  args?: Word[]; // Preloaded into R0..R(n-1)
+  branchMode?: BranchMode; // Default 'nzp'
+  maxSteps?: number; // Thread-instructions before giving up (default 1,000,000)
+}
+
+export interface ReferenceResult {
+  memory: Word[];
+  registers: Word[][]; // R0-R15 by thread id
+  completed: boolean; // False if maxSteps ran out
+  steps: number;
+  race: string | null; // First data race, if any
+}
+
+interface ReferenceThread {
+  id: number;
+  blockId: number;
+  pc: Address;
+  registers: Uint32Array;
+  nzp: number;
+  done: boolean;
+  waiting: boolean;
+}
+
+/**
+ * Accesses to one address since the last ordering point
+ */
+interface AccessRecord {
+  thread: number; // First thread to touch the address
+  shared: boolean; // Touched by more than one thread
+  written: boolean;
+}
+
+const BRANCH_NZP_MASK: Record<string, number> = {
+  BR: NZP_NEGATIVE | NZP_ZERO | NZP_POSITIVE,
+  BRn: NZP_NEGATIVE,
+  BRz: NZP_ZERO,
+  BRp: NZP_POSITIVE,
+  BRnz: NZP_NEGATIVE | NZP_ZERO,
+};
+
+/**
+ * Run a kernel on the reference interpreter
+ */
+export function runReference(options: ReferenceOptions): ReferenceResult {
+  return new ReferenceInterpreter(options).run();
+}
+
+class ReferenceInterpreter {
+  private instructions: Instruction[];
+  private memory: Uint32Array;
+  private sharedSize: number;
+  private branchMode: BranchMode;
+  private maxSteps: number;
+  private steps = 0;
+  private race: string | null = null;
+  private globalAccesses = new Map<Address, AccessRecord>();
+
+  constructor(private options: ReferenceOptions) {
+    const decoder = new InstructionDecoder();
+    this.instructions = options.program.map((word) => decoder.decode(word));
+    this.memory = new Uint32Array(options.memorySize);
+    (options.memoryImage ?? []).forEach((value, address) => {
+      if (address < this.memory.length) {
+        this.memory[address] = value >>> 0;
+      }
+    });
+    this.sharedSize = options.sharedMemorySize ?? 256;
+    this.branchMode = options.branchMode ?? 'nzp';
+    this.maxSteps = options.maxSteps ?? 1_000_000;
+  }
+
+  /**
+   * Run every block to completion, one after another
+   */
+  run(): ReferenceResult {
+    const { gridDim, blockDim, args = [] } = this.options;
+    const registers: Word[][] = [];
+    let completed = true;
+
+    for (let blockId = 0; blockId < gridDim; blockId++) {
+      const threads: ReferenceThread[] = [];
+      for (let threadIdx = 0; threadIdx < blockDim; threadIdx++) {
+        const values = new Uint32Array(NUM_REGISTERS);
+        args.forEach((arg, reg) => (values[reg] = arg >>> 0));
+        values[BLOCK_IDX_REGISTER] = blockId;
+        values[BLOCK_DIM_REGISTER] = blockDim;
+        values[THREAD_IDX_REGISTER] = threadIdx;
+        threads.push({
+          id: blockId * blockDim + threadIdx,
+          blockId,
+          pc: 0,
+          registers: values,
+          nzp: 0,
+          done: false,
+          waiting: false,
+        });
+      }
+
+      completed = completed && this.runBlock(threads);
+      for (const thread of threads) {
+        registers[thread.id] = Array.from(thread.registers);
+      }
+    }
+
+    return {
+      memory: Array.from(this.memory),
+      registers,
+      completed,
+      steps: this.steps,
+      race: this.race,
+    };
+  }
+
+  /**
+   * Run a block's threads, opening the barrier whenever all running
+   * threads wait at it; false if the step budget ran out
+   */
+  private runBlock(threads: ReferenceThread[]): boolean {
+    const shared: Word[] = new Array(this.sharedSize).fill(0);
+    let sharedAccesses = new Map<Address, AccessRecord>();
+
+    for (;;) {
+      for (const thread of threads) {
+        while (!thread.done && !thread.waiting) {
+          if (this.steps >= this.maxSteps) {
+            return false;
+          }
+          this.steps++;
+          this.step(thread, shared, sharedAccesses);
+        }
+      }
+
+      const running = threads.filter((t) => !t.done);
+      if (running.length === 0) {
+        return true;
+      }
+      // Every running thread waits at the barrier: release it
+      for (const thread of running) {
+        thread.waiting = false;
+      }
+      sharedAccesses = new Map();
+    }
+  }
+
+  /**
+   * Execute one instruction of a thread
+   */
+  private step(
+    thread: ReferenceThread,
+    shared: Word[],
+    sharedAccesses: Map<Address, AccessRecord>
+  ): void {
+    const { pc } = thread;
+    if (pc < 0 || pc >= this.instructions.length) {
+      thread.done = true; // Outside the program: the thread exits
+      return;
+    }
+
+    const { opcode, rd, rs1, rs2, immediate } = this.instructions[pc];
+    const regs = thread.registers;
+    const read = (reg: number | undefined) => regs[reg ?? 0];
+    const write = (value: Word) => {
+      // Writes to R13-R15 fault in the engine and are dropped
+      if (!isReadOnlyRegister(rd ?? 0)) {
+        regs[rd ?? 0] = value >>> 0;
+      }
+    };
+    thread.pc = pc + 1;
+
+    switch (opcode) {
+      case 'CONST':
+        write((immediate ?? 0) >>> 0);
+        break;
+
+      case 'ADD':
+      case 'SUB':
+      case 'MUL':
+      case 'DIV':
+      case 'AND':
+      case 'OR':
+      case 'XOR':
+      case 'SHL':
+      case 'SHR':
+      case 'SRA':
+        write(applyALU(opcode, read(rs1), read(rs2)));
+        break;
+
+      case 'ADDI':
+      case 'MULI':
+      case 'ANDI':
+      case 'ORI':
+      case 'XORI':
+      case 'SHLI':
+      case 'SHRI':
+      case 'SRAI':
+        write(applyALU(opcode.slice(0, -1), read(rs1), (immediate ?? 0) >>> 0));
+        break;
+
+      case 'MOV':
+        write(read(rs1));
+        break;
+
+      case 'FADD':
+      case 'FSUB':
+      case 'FMUL':
+      case 'FDIV':
+      case 'FMA':
+      case 'FMAX':
+      case 'ITOF':
+      case 'FTOI':
+      case 'FEXP':
+        write(applyFloat(opcode, read(rs1), read(rs2), read(rd)));
+        break;
+
+      case 'LDR': {
+        const address = (read(rs1) + (immediate ?? 0)) >>> 0;
+        this.checkRace(this.globalAccesses, 'global', address, thread, false);
+        write(address < this.memory.length ? this.memory[address] : 0);
+        break;
+      }
+
+      case 'STR': {
+        const address = read(rs1);
+        this.checkRace(this.globalAccesses, 'global', address, thread, true);
+        if (address < this.memory.length) {
+          this.memory[address] = read(rs2);
+        }
+        break;
+      }
+
+      case 'LDS': {
+        const address = (read(rs1) + (immediate ?? 0)) >>> 0;
+        this.checkRace(sharedAccesses, 'shared', address, thread, false);
+        write(address < shared.length ? shared[address] : 0);
+        break;
+      }
+
+      case 'STS': {
+        const address = read(rs1);
+        this.checkRace(sharedAccesses, 'shared', address, thread, true);
+        if (address < shared.length) {
+          shared[address] = read(rs2);
+        }
+        break;
+      }
+
+      case 'CMP': {
+        const a = read(rs1) | 0;
+        const b = read(rs2) | 0;
+        thread.nzp = a < b ? NZP_NEGATIVE : a === b ? NZP_ZERO : NZP_POSITIVE;
+        break;
+      }
+
+      case 'FCMP': {
+        const a = bitsToFloat(read(rs1));
+        const b = bitsToFloat(read(rs2));
+        thread.nzp =
+          Number.isNaN(a) || Number.isNaN(b) ? 0 : a < b ? NZP_NEGATIVE : a === b ? NZP_ZERO : NZP_POSITIVE;
+        break;
+      }
+
+      case 'BR':
+      case 'BRn':
+      case 'BRz':
+      case 'BRp':
+      case 'BRnz':
+        if (this.branchTaken(opcode, thread, read(rs1))) {
+          thread.pc = pc + (immediate ?? 0);
+        }
+        break;
+
+      case 'SYNC':
+        thread.waiting = true;
+        break;
+
+      case 'RET':
+        thread.pc = pc;
+        thread.done = true;
+        break;
+
+      default:
+        break; // NOP, JOIN
+    }
+  }
+
+  /**
+   * Whether a branch is taken: 'nzp' mode tests the condition codes,
+   * 'register' mode the value of rs1 (BRnz = not zero)
+   */
+  private branchTaken(opcode: string, thread: ReferenceThread, value: Word): boolean {
+    if (opcode === 'BR') {
+      return true;
+    }
+    if (this.branchMode === 'nzp') {
+      return (thread.nzp & BRANCH_NZP_MASK[opcode]) !== 0;
+    }
+    const negative = (value & 0x80000000) !== 0;
+    switch (opcode) {
+      case 'BRz':
+        return value === 0;
+      case 'BRnz':
+        return value !== 0;
+      case 'BRn':
+        return negative;
+      default:
+        return !negative && value !== 0; // BRp
+    }
+  }
+
+  /**
+   * Record an access and note the first pair of threads that touch the
+   * same address, at least one of them writing, with no ordering between
+   * them (global memory is never ordered; shared memory is ordered by SYNC)
+   */
+  private checkRace(
+    accesses: Map<Address, AccessRecord>,
+    space: 'global' | 'shared',
+    address: Address,
+    thread: ReferenceThread,
+    isWrite: boolean
+  ): void {
+    let record = accesses.get(address);
+    if (!record) {
+      record = { thread: thread.id, shared: false, written: false };
+      accesses.set(address, record);
+    }
+    if (record.thread !== thread.id) {
+      record.shared = true;
+    }
+    if (isWrite) {
+      record.written = true;
+    }
+    if (record.shared && record.written && this.race === null) {
+      this.race = `${space} address ${address}: thread ${thread.id} and thread ${record.thread}`;
+    }
+  }
+}
@@ -8,6 +8,12 @@ export * from './memory';
 export * from './core';
 export * from './instruction-set';
 export * from './execution';
+export * from './debug';
+export * from './profiling';
+export * from './visualization';
+export * from './kernels';
+export * from './fuzzing';
+export * from './testbench';
 export * from './impossible-gpu';
 export * from './ultra-optimized-gpu';
 export * from './streaming-executor';
@@ -0,0 +1,402 @@
+/**
+ * Assembler
+ * Translates tiny-gpu assembly text into binary instruction words
+ *
+ * Syntax:
+ *   loop:                     ; labels end with a colon
+ *     CONST R1, #10           ; immediates use '#', hex (#0x1f) and binary (#0b101) allowed
+ *     ANDI R1, R1, #0x7fff    ; immediates are sign-extended, so -0x8000 to 0x7fff
+ *     ADD R2, R2, R1          // '//' comments work too
+ *     LDR R3, [R2 + #4]       ; LDR also accepts "R3, R2" and "R3, R2, #4"
+ *     STR R2, R3              ; store R3 at address R2
+ *     CMP R1, R2              ; sets the NZP condition codes
+ *     BRn loop                ; branch labels resolve to PC-relative offsets
+ *     BRz R1, done            ; register operand is only used in 'register' branch mode
+ *     MUL R4, %blockIdx, %blockDim  ; read-only R13-R15 are %blockIdx, %blockDim, %threadIdx
+ *     RET
+ */
+
+import type { Instruction, Word } from '../types';
+import { InstructionEncoder } from './encoder';
+import { getOpcodeByMnemonic } from './opcodes';
+import { SPECIAL_REGISTER_NAMES } from '../core/register-file';
+
+/**
+ * Error raised for malformed assembly, with 1-based source position
+ */
+export class AssemblyError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${line}:${column}: ${message}`);
+    this.name = 'AssemblyError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenKind = 'ident' | 'immediate' | 'comma' | 'colon' | 'lbracket' | 'rbracket' | 'plus' | 'minus';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  column: number;
+}
+
+/**
+ * Operand whose value is only known after all labels are collected
+ */
+interface PendingTarget {
+  label: string;
+  column: number;
+}
+
+interface Statement {
+  instruction: Instruction;
+  target?: PendingTarget;
+  line: number;
+}
+
+const REGISTER_ALIASES = new Map<string, number>(
+  Object.entries(SPECIAL_REGISTER_NAMES).map(([index, name]) => [name.toLowerCase(), Number(index)])
+);
+
+// imm16 is sign-extended for every opcode (see InstructionDecoder.getImmediate)
+const IMMEDIATE_MIN = -0x8000;
+const IMMEDIATE_MAX = 0x7fff;
+const BRANCH_MIN = -0x8000;
+const BRANCH_MAX = 0x7fff;
+
+export class Assembler {
+  private encoder = new InstructionEncoder();
+
+  /**
+   * Assemble source text into instruction words
+   */
+  assemble(source: string): Word[] {
+    const labels = new Map<string, number>();
+    const statements: Statement[] = [];
+
+    // Pass 1: parse statements and record label addresses
+    const lines = source.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const lineNumber = i + 1;
+      const tokens = this.tokenize(lines[i], lineNumber);
+      let pos = 0;
+
+      // Leading labels ("name:"), possibly several
+      while (
+        pos + 1 < tokens.length &&
+        tokens[pos].kind === 'ident' &&
+        tokens[pos + 1].kind === 'colon'
+      ) {
+        const label = tokens[pos];
+        if (labels.has(label.text)) {
+          throw new AssemblyError(`Duplicate label '${label.text}'`, lineNumber, label.column);
+        }
+        labels.set(label.text, statements.length);
+        pos += 2;
+      }
+
+      if (pos < tokens.length) {
+        statements.push(this.parseStatement(tokens, pos, lineNumber));
+      }
+    }
+
+    // Pass 2: resolve branch targets and encode
+    return statements.map((statement, pc) => {
+      if (statement.target) {
+        const { label, column } = statement.target;
+        const address = labels.get(label);
+        if (address === undefined) {
+          throw new AssemblyError(`Undefined label '${label}'`, statement.line, column);
+        }
+        const offset = address - pc;
+        if (offset < BRANCH_MIN || offset > BRANCH_MAX) {
+          throw new AssemblyError(`Branch to '${label}' out of range`, statement.line, column);
+        }
+        statement.instruction.immediate = offset;
+      }
+      return this.encoder.encode(statement.instruction);
+    });
+  }
+
+  /**
+   * Parse one instruction starting at tokens[start]
+   */
+  private parseStatement(tokens: Token[], start: number, line: number): Statement {
+    const mnemonicToken = tokens[start];
+    if (mnemonicToken.kind !== 'ident') {
+      throw new AssemblyError(`Expected mnemonic, found '${mnemonicToken.text}'`, line, mnemonicToken.column);
+    }
+
+    const info = getOpcodeByMnemonic(mnemonicToken.text);
+    if (!info) {
+      throw new AssemblyError(`Unknown mnemonic '${mnemonicToken.text}'`, line, mnemonicToken.column);
+    }
+
+    const cursor = new TokenCursor(tokens, start + 1, line, mnemonicToken.column + mnemonicToken.text.length);
+    const statement: Statement = {
+      instruction: { opcode: info.mnemonic },
+      line,
+    };
+    const instruction = statement.instruction;
+
+    switch (info.format) {
+      case 'none':
+        break;
+      case 'rd-imm':
+        instruction.rd = this.parseDestination(cursor);
+        cursor.expect('comma');
+        instruction.immediate = this.parseImmediate(cursor);
+        break;
+      case 'rd-rs1':
+        instruction.rd = this.parseDestination(cursor);
+        cursor.expect('comma');
+        instruction.rs1 = this.parseRegister(cursor);
+        break;
+      case 'rd-rs1-rs2':
+        instruction.rd = this.parseDestination(cursor);
+        cursor.expect('comma');
+        instruction.rs1 = this.parseRegister(cursor);
+        cursor.expect('comma');
+        instruction.rs2 = this.parseRegister(cursor);
+        break;
+      case 'rd-rs1-imm':
+        instruction.rd = this.parseDestination(cursor);
+        cursor.expect('comma');
+        instruction.rs1 = this.parseRegister(cursor);
+        cursor.expect('comma');
+        instruction.immediate = this.parseImmediate(cursor);
+        break;
+      case 'rd-address':
+        instruction.rd = this.parseDestination(cursor);
+        cursor.expect('comma');
+        this.parseAddress(cursor, instruction);
+        break;
+      case 'rs1-rs2':
+        if (cursor.peek()?.kind === 'lbracket') {
+          cursor.next();
+          instruction.rs1 = this.parseRegister(cursor);
+          cursor.expect('rbracket');
+        } else {
+          instruction.rs1 = this.parseRegister(cursor);
+        }
+        cursor.expect('comma');
+        instruction.rs2 = this.parseRegister(cursor);
+        break;
+      case 'target':
+        statement.target = this.parseTarget(cursor, instruction);
+        break;
+      case 'rs1-target':
+        // The register is only tested in 'register' branch mode and may be omitted
+        if (cursor.peek(1)?.kind === 'comma') {
+          instruction.rs1 = this.parseRegister(cursor);
+          cursor.expect('comma');
+        }
+        statement.target = this.parseTarget(cursor, instruction);
+        break;
+    }
+
+    cursor.expectEnd();
+    return statement;
+  }
+
+  /**
+   * Parse "[rs1]", "[rs1 + #imm]", "[rs1 - #imm]", "rs1" or "rs1, #imm"
+   */
+  private parseAddress(cursor: TokenCursor, instruction: Instruction): void {
+    let offset = 0;
+
+    if (cursor.peek()?.kind === 'lbracket') {
+      cursor.next();
+      instruction.rs1 = this.parseRegister(cursor);
+      const sign = cursor.peek();
+      if (sign && (sign.kind === 'plus' || sign.kind === 'minus')) {
+        cursor.next();
+        offset = this.parseImmediate(cursor, sign.kind === 'minus');
+      }
+      cursor.expect('rbracket');
+    } else {
+      instruction.rs1 = this.parseRegister(cursor);
+      if (cursor.peek()?.kind === 'comma') {
+        cursor.next();
+        offset = this.parseImmediate(cursor);
+      }
+    }
+
+    instruction.immediate = offset;
+  }
+
+  /**
+   * Parse a branch target: a label (resolved later) or a raw #offset
+   */
+  private parseTarget(cursor: TokenCursor, instruction: Instruction): PendingTarget | undefined {
+    const token = cursor.peek();
+    if (token?.kind === 'immediate') {
+      instruction.immediate = this.parseImmediate(cursor);
+      return undefined;
+    }
+    const label = cursor.expect('ident');
+    return { label: label.text, column: label.column };
+  }
+
+  /**
+   * Parse register operand R0-R15 or a %special alias
+   */
+  private parseRegister(cursor: TokenCursor): number {
+    const token = cursor.expect('ident');
+    const alias = REGISTER_ALIASES.get(token.text.toLowerCase());
+    if (alias !== undefined) {
+      return alias;
+    }
+    const match = /^R(\d+)$/i.exec(token.text);
+    if (!match) {
+      throw cursor.error(`Expected register, found '${token.text}'`, token.column);
+    }
+    const index = parseInt(match[1], 10);
+    if (index > 15) {
+      throw cursor.error(`Register out of range '${token.text}'`, token.column);
+    }
+    return index;
+  }
+
+  /**
+   * Parse a destination register; R13-R15 are read-only
+   */
+  private parseDestination(cursor: TokenCursor): number {
+    const token = cursor.peek();
+    const register = this.parseRegister(cursor);
+    if (register in SPECIAL_REGISTER_NAMES) {
+      throw cursor.error(`Register R${register} (${SPECIAL_REGISTER_NAMES[register]}) is read-only`, token!.column);
+    }
+    return register;
+  }
+
+  /**
+   * Parse immediate operand (#dec, #-dec, #0xhex, #0bbin), negated if
+   * `negate` (as in "[R1 - #4]") before the range check
+   */
+  private parseImmediate(cursor: TokenCursor, negate = false): number {
+    const token = cursor.expect('immediate');
+    const match = /^#([+-]?)(0x[0-9a-f]+|0b[01]+|\d+)$/i.exec(token.text);
+    if (!match) {
+      throw cursor.error(`Invalid immediate '${token.text}'`, token.column);
+    }
+    const body = match[2].toLowerCase();
+    let value = body.startsWith('0x')
+      ? parseInt(body.slice(2), 16)
+      : body.startsWith('0b')
+        ? parseInt(body.slice(2), 2)
+        : parseInt(body, 10);
+    if (match[1] === '-') value = -value;
+    if (negate) value = -value;
+    if (value < IMMEDIATE_MIN || value > IMMEDIATE_MAX) {
+      throw cursor.error(
+        `Immediate out of signed 16-bit range (${IMMEDIATE_MIN} to ${IMMEDIATE_MAX}) '${token.text}'`,
+        token.column
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Split a source line into tokens, dropping comments
+   */
+  private tokenize(text: string, line: number): Token[] {
+    const tokens: Token[] = [];
+    const punctuation: Record<string, TokenKind> = {
+      ',': 'comma',
+      ':': 'colon',
+      '[': 'lbracket',
+      ']': 'rbracket',
+      '+': 'plus',
+      '-': 'minus',
+    };
+    let i = 0;
+
+    while (i < text.length) {
+      const ch = text[i];
+      const column = i + 1;
+
+      if (ch === ';' || (ch === '/' && text[i + 1] === '/')) {
+        break;
+      }
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+      if (punctuation[ch]) {
+        tokens.push({ kind: punctuation[ch], text: ch, column });
+        i++;
+        continue;
+      }
+      if (ch === '#') {
+        const match = /^#[+-]?\w+/.exec(text.slice(i));
+        if (!match) {
+          throw new AssemblyError('Expected value after #', line, column);
+        }
+        tokens.push({ kind: 'immediate', text: match[0], column });
+        i += match[0].length;
+        continue;
+      }
+      const ident = /^%?[A-Za-z_.][\w.]*/.exec(text.slice(i));
+      if (ident) {
+        tokens.push({ kind: 'ident', text: ident[0], column });
+        i += ident[0].length;
+        continue;
+      }
+      throw new AssemblyError(`Unexpected character '${ch}'`, line, column);
+    }
+
+    return tokens;
+  }
+}
+
+/**
+ * Sequential reader over a line's tokens that reports positions on error
+ */
+class TokenCursor {
+  constructor(
+    private tokens: Token[],
+    private pos: number,
+    private line: number,
+    private endColumn: number
+  ) {}
+
+  peek(ahead: number = 0): Token | undefined {
+    return this.tokens[this.pos + ahead];
+  }
+
+  next(): Token | undefined {
+    const token = this.tokens[this.pos];
+    if (token) {
+      this.pos++;
+      this.endColumn = token.column + token.text.length;
+    }
+    return token;
+  }
+
+  expect(kind: TokenKind): Token {
+    const token = this.peek();
+    if (!token) {
+      throw this.error(`Expected ${kind}, found end of line`, this.endColumn);
+    }
+    if (token.kind !== kind) {
+      throw this.error(`Expected ${kind}, found '${token.text}'`, token.column);
+    }
+    return this.next()!;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token) {
+      throw this.error(`Unexpected '${token.text}'`, token.column);
+    }
+  }
+
+  error(message: string, column: number): AssemblyError {
+    return new AssemblyError(message, this.line, column);
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import type { Instruction, Word } from '../types';
+import { getOpcodeByCode } from './opcodes';
 
 export class InstructionDecoder {
   /**
@@ -28,21 +29,57 @@ export class InstructionDecoder {
       case 'AND':
       case 'OR':
       case 'XOR':
+      case 'SHL':
+      case 'SHR':
+      case 'SRA':
+      case 'FADD':
+      case 'FSUB':
+      case 'FMUL':
+      case 'FDIV':
+      case 'FMA':
+      case 'FMAX':
         return {
           opcode,
           rd: this.getRd(instruction),
           rs1: this.getRs1(instruction),
           rs2: this.getRs2(instruction),
         };
+      case 'MOV':
+      case 'ITOF':
+      case 'FTOI':
+      case 'FEXP':
+        return {
+          opcode,
+          rd: this.getRd(instruction),
+          rs1: this.getRs1(instruction),
+        };
+      case 'ADDI':
+      case 'MULI':
+      case 'ANDI':
+      case 'ORI':
+      case 'XORI':
+      case 'SHLI':
+      case 'SHRI':
+      case 'SRAI':
       case 'LDR':
-      case 'STR':
+      case 'LDS':
         return {
           opcode,
           rd: this.getRd(instruction),
           rs1: this.getRs1(instruction),
           immediate: this.getImmediate(instruction),
         };
+      case 'STR':
+      case 'STS':
+        // STR rs1, rs2 - the data register shares bits with the immediate,
+        // so stores carry no offset (as in tiny-gpu)
+        return {
+          opcode,
+          rs1: this.getRs1(instruction),
+          rs2: this.getRs2(instruction),
+        };
       case 'BR':
+      case 'JOIN':
       case 'BRz':
       case 'BRnz':
       case 'BRn':
@@ -53,14 +90,16 @@ export class InstructionDecoder {
           immediate: this.getImmediate(instruction),
         };
       case 'CMP':
+      case 'FCMP':
         return {
-          opcode: 'CMP',
+          opcode,
           rs1: this.getRs1(instruction),
           rs2: this.getRs2(instruction),
         };
       case 'RET':
+      case 'SYNC':
         return {
-          opcode: 'RET',
+          opcode,
         };
       default:
         return {
@@ -81,27 +120,7 @@ export class InstructionDecoder {
    * Convert opcode number to string
    */
   private opcodeToString(opcode: number): string {
-    const opcodes: Record<number, string> = {
-      0x00: 'NOP',
-      0x01: 'CONST',
-      0x02: 'ADD',
-      0x03: 'SUB',
-      0x04: 'MUL',
-      0x05: 'DIV',
-      0x06: 'AND',
-      0x07: 'OR',
-      0x08: 'XOR',
-      0x09: 'LDR',
-      0x0a: 'STR',
-      0x0b: 'BR',
-      0x0c: 'BRz',
-      0x0d: 'BRnz',
-      0x0e: 'BRn',
-      0x0f: 'BRp',
-      0x10: 'CMP',
-      0x11: 'RET',
-    };
-    return opcodes[opcode] || 'NOP';
+    return getOpcodeByCode(opcode)?.mnemonic || 'NOP';
   }
 
   /**
@@ -0,0 +1,114 @@
+/**
+ * Disassembler
+ * Turns binary instruction words back into assembly text
+ * Output is accepted by the Assembler (branch targets become labels)
+ */
+
+import type { Instruction, Word } from '../types';
+import { InstructionDecoder } from './decoder';
+import { getOpcodeByCode, getOpcodeByMnemonic } from './opcodes';
+import { SPECIAL_REGISTER_NAMES } from '../core/register-file';
+
+export class Disassembler {
+  private decoder = new InstructionDecoder();
+
+  /**
+   * Disassemble a program
+   * Branches that land inside the program get an "L<pc>" label
+   */
+  disassemble(words: Word[]): string {
+    const instructions = words.map((word) => this.decoder.decode(word));
+
+    const targets = new Set<number>();
+    instructions.forEach((instruction, pc) => {
+      if (this.isBranch(instruction) && instruction.immediate !== undefined) {
+        const target = pc + instruction.immediate;
+        if (target >= 0 && target <= words.length) {
+          targets.add(target);
+        }
+      }
+    });
+
+    const lines: string[] = [];
+    instructions.forEach((instruction, pc) => {
+      if (targets.has(pc)) {
+        lines.push(`L${pc}:`);
+      }
+      let text = this.format(instruction, pc, targets);
+      if (!getOpcodeByCode((words[pc] >>> 24) & 0xff)) {
+        text += ` ; unknown opcode 0x${(words[pc] >>> 0).toString(16).padStart(8, '0')}`;
+      }
+      lines.push(`  ${text}`);
+    });
+    if (targets.has(words.length)) {
+      lines.push(`L${words.length}:`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Disassemble a single word
+   * Without a PC, branch targets are printed as raw offsets
+   */
+  disassembleWord(word: Word, pc?: number): string {
+    const instruction = this.decoder.decode(word);
+    if (pc === undefined) {
+      return this.format(instruction, 0, new Set());
+    }
+    const target = pc + (instruction.immediate ?? 0);
+    return this.format(instruction, pc, new Set([target]));
+  }
+
+  /**
+   * Format a decoded instruction
+   */
+  private format(instruction: Instruction, pc: number, labels: Set<number>): string {
+    const info = getOpcodeByMnemonic(instruction.opcode);
+    const mnemonic = instruction.opcode;
+    const reg = (index: number | undefined) =>
+      SPECIAL_REGISTER_NAMES[index ?? 0] ?? `R${index ?? 0}`;
+    const imm = (value: number | undefined) => `#${value ?? 0}`;
+    const target = (offset: number | undefined) => {
+      const address = pc + (offset ?? 0);
+      return labels.has(address) ? `L${address}` : imm(offset);
+    };
+
+    switch (info?.format) {
+      case 'rd-imm':
+        return `${mnemonic} ${reg(instruction.rd)}, ${imm(instruction.immediate)}`;
+      case 'rd-rs1':
+        return `${mnemonic} ${reg(instruction.rd)}, ${reg(instruction.rs1)}`;
+      case 'rd-rs1-rs2':
+        return `${mnemonic} ${reg(instruction.rd)}, ${reg(instruction.rs1)}, ${reg(instruction.rs2)}`;
+      case 'rd-rs1-imm':
+        return `${mnemonic} ${reg(instruction.rd)}, ${reg(instruction.rs1)}, ${imm(instruction.immediate)}`;
+      case 'rd-address': {
+        const offset = instruction.immediate ?? 0;
+        const address =
+          offset === 0
+            ? `[${reg(instruction.rs1)}]`
+            : `[${reg(instruction.rs1)} ${offset < 0 ? '-' : '+'} #${Math.abs(offset)}]`;
+        return `${mnemonic} ${reg(instruction.rd)}, ${address}`;
+      }
+      case 'rs1-rs2':
+        return `${mnemonic} ${reg(instruction.rs1)}, ${reg(instruction.rs2)}`;
+      case 'target':
+        return `${mnemonic} ${target(instruction.immediate)}`;
+      case 'rs1-target':
+        return instruction.rs1
+          ? `${mnemonic} ${reg(instruction.rs1)}, ${target(instruction.immediate)}`
+          : `${mnemonic} ${target(instruction.immediate)}`;
+      default:
+        return mnemonic;
+    }
+  }
+
+  /**
+   * Check whether an instruction carries a PC-relative target
+   */
+  private isBranch(instruction: Instruction): boolean {
+    const format = getOpcodeByMnemonic(instruction.opcode)?.format;
+    return format === 'target' || format === 'rs1-target';
+  }
+}
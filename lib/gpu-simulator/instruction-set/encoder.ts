@@ -0,0 +1,75 @@
+/**
+ * Instruction Encoder
+ * Inverse of InstructionDecoder
+ * Encodes Instruction objects into binary words
+ */
+
+import type { Instruction, Word } from '../types';
+import { getOpcodeByMnemonic } from './opcodes';
+
+export class InstructionEncoder {
+  /**
+   * Encode instruction into a binary word
+   * Uses the decoder's bit layout: opcode 31-24, rd 23-20, rs1 19-16,
+   * rs2 15-12, immediate 15-0
+   */
+  encode(instruction: Instruction): Word {
+    const info = getOpcodeByMnemonic(instruction.opcode);
+    if (!info) {
+      throw new Error(`Unknown opcode: ${instruction.opcode}`);
+    }
+
+    let word = (info.code & 0xff) << 24;
+
+    switch (info.format) {
+      case 'rd-imm':
+        word |= this.field(instruction.rd, 20);
+        word |= this.immediate(instruction.immediate);
+        break;
+      case 'rd-rs1':
+        word |= this.field(instruction.rd, 20);
+        word |= this.field(instruction.rs1, 16);
+        break;
+      case 'rd-rs1-rs2':
+        word |= this.field(instruction.rd, 20);
+        word |= this.field(instruction.rs1, 16);
+        word |= this.field(instruction.rs2, 12);
+        break;
+      case 'rd-rs1-imm':
+      case 'rd-address':
+        word |= this.field(instruction.rd, 20);
+        word |= this.field(instruction.rs1, 16);
+        word |= this.immediate(instruction.immediate);
+        break;
+      case 'rs1-rs2':
+        word |= this.field(instruction.rs1, 16);
+        word |= this.field(instruction.rs2, 12);
+        break;
+      case 'target':
+        word |= this.immediate(instruction.immediate);
+        break;
+      case 'rs1-target':
+        word |= this.field(instruction.rs1, 16);
+        word |= this.immediate(instruction.immediate);
+        break;
+      case 'none':
+        break;
+    }
+
+    return word >>> 0;
+  }
+
+  /**
+   * Place a 4-bit register index at the given bit position
+   */
+  private field(reg: number | undefined, shift: number): number {
+    return ((reg ?? 0) & 0xf) << shift;
+  }
+
+  /**
+   * Truncate immediate to 16 bits (bits 15-0)
+   */
+  private immediate(value: number | undefined): number {
+    return (value ?? 0) & 0xffff;
+  }
+}
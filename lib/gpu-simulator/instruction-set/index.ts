@@ -3,4 +3,13 @@
  */
 
 export { InstructionDecoder } from './decoder';
-export { executeInstruction, type InstructionContext, type InstructionResult } from './instructions';
+export { InstructionEncoder } from './encoder';
+export { Assembler, AssemblyError } from './assembler';
+export { Disassembler } from './disassembler';
+export { OPCODES, getOpcodeByCode, getOpcodeByMnemonic, type OpcodeInfo, type OperandFormat } from './opcodes';
+export {
+  executeWarpInstruction,
+  createWarpInstructionResult,
+  type WarpInstructionContext,
+  type WarpInstructionResult,
+} from './warp-instructions';
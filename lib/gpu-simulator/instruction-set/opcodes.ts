@@ -0,0 +1,102 @@
+/**
+ * Opcode Table
+ * Single source of truth for the tiny-gpu instruction encoding
+ * Shared by the decoder, encoder, assembler and disassembler
+ */
+
+/**
+ * Operand layout of an instruction
+ * - none:       no operands (NOP, RET, SYNC)
+ * - rd-imm:     rd, #imm
+ * - rd-rs1:     rd, rs1
+ * - rd-rs1-rs2: rd, rs1, rs2
+ * - rd-rs1-imm: rd, rs1, #imm
+ * - rd-address: rd, [rs1 + #imm]
+ * - rs1-rs2:    rs1, rs2
+ * - target:     PC-relative branch target
+ * - rs1-target: [rs1,] PC-relative branch target (rs1 only used in 'register' branch mode)
+ */
+export type OperandFormat =
+  | 'none'
+  | 'rd-imm'
+  | 'rd-rs1'
+  | 'rd-rs1-rs2'
+  | 'rd-rs1-imm'
+  | 'rd-address'
+  | 'rs1-rs2'
+  | 'target'
+  | 'rs1-target';
+
+export interface OpcodeInfo {
+  code: number;
+  mnemonic: string;
+  format: OperandFormat;
+}
+
+export const OPCODES: readonly OpcodeInfo[] = [
+  { code: 0x00, mnemonic: 'NOP', format: 'none' },
+  { code: 0x01, mnemonic: 'CONST', format: 'rd-imm' },
+  { code: 0x02, mnemonic: 'ADD', format: 'rd-rs1-rs2' },
+  { code: 0x03, mnemonic: 'SUB', format: 'rd-rs1-rs2' },
+  { code: 0x04, mnemonic: 'MUL', format: 'rd-rs1-rs2' },
+  { code: 0x05, mnemonic: 'DIV', format: 'rd-rs1-rs2' },
+  { code: 0x06, mnemonic: 'AND', format: 'rd-rs1-rs2' },
+  { code: 0x07, mnemonic: 'OR', format: 'rd-rs1-rs2' },
+  { code: 0x08, mnemonic: 'XOR', format: 'rd-rs1-rs2' },
+  { code: 0x09, mnemonic: 'LDR', format: 'rd-address' },
+  { code: 0x0a, mnemonic: 'STR', format: 'rs1-rs2' },
+  { code: 0x0b, mnemonic: 'BR', format: 'target' },
+  { code: 0x0c, mnemonic: 'BRz', format: 'rs1-target' },
+  { code: 0x0d, mnemonic: 'BRnz', format: 'rs1-target' },
+  { code: 0x0e, mnemonic: 'BRn', format: 'rs1-target' },
+  { code: 0x0f, mnemonic: 'BRp', format: 'rs1-target' },
+  { code: 0x10, mnemonic: 'CMP', format: 'rs1-rs2' },
+  { code: 0x11, mnemonic: 'RET', format: 'none' },
+  { code: 0x12, mnemonic: 'LDS', format: 'rd-address' },
+  { code: 0x13, mnemonic: 'STS', format: 'rs1-rs2' },
+  { code: 0x14, mnemonic: 'SYNC', format: 'none' },
+  { code: 0x15, mnemonic: 'JOIN', format: 'target' },
+  // IEEE-754 single precision on register bit patterns
+  { code: 0x16, mnemonic: 'FADD', format: 'rd-rs1-rs2' },
+  { code: 0x17, mnemonic: 'FSUB', format: 'rd-rs1-rs2' },
+  { code: 0x18, mnemonic: 'FMUL', format: 'rd-rs1-rs2' },
+  { code: 0x19, mnemonic: 'FDIV', format: 'rd-rs1-rs2' },
+  { code: 0x1a, mnemonic: 'FMA', format: 'rd-rs1-rs2' }, // rd = rs1 * rs2 + rd
+  { code: 0x1b, mnemonic: 'FCMP', format: 'rs1-rs2' },
+  { code: 0x1c, mnemonic: 'ITOF', format: 'rd-rs1' },
+  { code: 0x1d, mnemonic: 'FTOI', format: 'rd-rs1' },
+  { code: 0x1e, mnemonic: 'FMAX', format: 'rd-rs1-rs2' },
+  { code: 0x1f, mnemonic: 'FEXP', format: 'rd-rs1' },
+  { code: 0x20, mnemonic: 'SHL', format: 'rd-rs1-rs2' },
+  { code: 0x21, mnemonic: 'SHR', format: 'rd-rs1-rs2' }, // Logical
+  { code: 0x22, mnemonic: 'SRA', format: 'rd-rs1-rs2' }, // Arithmetic
+  { code: 0x23, mnemonic: 'MOV', format: 'rd-rs1' },
+  // Immediate forms; the 16-bit immediate is sign-extended
+  { code: 0x24, mnemonic: 'ADDI', format: 'rd-rs1-imm' },
+  { code: 0x25, mnemonic: 'MULI', format: 'rd-rs1-imm' },
+  { code: 0x26, mnemonic: 'ANDI', format: 'rd-rs1-imm' },
+  { code: 0x27, mnemonic: 'ORI', format: 'rd-rs1-imm' },
+  { code: 0x28, mnemonic: 'XORI', format: 'rd-rs1-imm' },
+  { code: 0x29, mnemonic: 'SHLI', format: 'rd-rs1-imm' },
+  { code: 0x2a, mnemonic: 'SHRI', format: 'rd-rs1-imm' },
+  { code: 0x2b, mnemonic: 'SRAI', format: 'rd-rs1-imm' },
+];
+
+const byCode = new Map<number, OpcodeInfo>(OPCODES.map((op) => [op.code, op]));
+const byMnemonic = new Map<string, OpcodeInfo>(
+  OPCODES.map((op) => [op.mnemonic.toUpperCase(), op])
+);
+
+/**
+ * Look up an opcode by its numeric encoding (bits 31-24)
+ */
+export function getOpcodeByCode(code: number): OpcodeInfo | undefined {
+  return byCode.get(code);
+}
+
+/**
+ * Look up an opcode by mnemonic (case-insensitive)
+ */
+export function getOpcodeByMnemonic(mnemonic: string): OpcodeInfo | undefined {
+  return byMnemonic.get(mnemonic.toUpperCase());
+}
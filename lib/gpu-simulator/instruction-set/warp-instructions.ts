@@ -0,0 +1,389 @@
+/**
+ * Warp Instruction Execution
+ * Executes one instruction for every issuing lane of a warp in lockstep,
+ * directly on the register file's typed arrays
+ *
+ * This is where the ISA's semantics are defined. Lanes are processed in
+ * order, so where lanes interact (STS to one address) the last lane wins;
+ * the engine then turns the per-lane results into PC updates, faults and
+ * memory requests.
+ */
+
+import type { Instruction, Word, Address, ThreadState, BranchMode, FaultKind } from '../types';
+import {
+  RegisterFile,
+  isReadOnlyRegister,
+  NZP_NEGATIVE,
+  NZP_ZERO,
+  NZP_POSITIVE,
+} from '../core/register-file';
+import { applyALU, applyFloat, bitsToFloat } from '../core/execution-unit';
+
+export interface WarpInstructionContext {
+  registerFile: RegisterFile;
+  memorySize: number; // Global memory words, for bounds checks
+  sharedMemory?: Word[]; // Scratch memory of the warp's block
+  branchMode: BranchMode;
+}
+
+/**
+ * Per-lane outcome of a warp instruction, in buffers reused across calls
+ * Index i refers to the i-th thread passed to executeWarpInstruction.
+ */
+export interface WarpInstructionResult {
+  nextPC: Int32Array;
+  address: Uint32Array; // Global or shared memory address of each lane
+  data: Uint32Array; // STR data of each lane
+  faults: (FaultKind | null)[]; // Fault of each lane, applied after its fallback
+  faultCount: number;
+  memory: 'read' | 'write' | null; // Global access made by every lane without a fault
+  shared: 'read' | 'write' | null; // Shared access made by every lane without a fault
+  done: boolean; // Lanes returned (RET)
+  barrier: boolean; // Lanes wait at a block-wide barrier (SYNC)
+  join?: Address; // Explicit reconvergence PC for the warp's next conditional branch
+}
+
+/**
+ * NZP mask tested by each conditional branch (tiny-gpu BRnzp encoding)
+ */
+const BRANCH_NZP_MASK: Record<string, number> = {
+  BRn: NZP_NEGATIVE,
+  BRz: NZP_ZERO,
+  BRp: NZP_POSITIVE,
+  BRnz: NZP_NEGATIVE | NZP_ZERO,
+};
+
+/**
+ * Allocate result buffers for warps of up to `warpSize` lanes
+ */
+export function createWarpInstructionResult(warpSize: number): WarpInstructionResult {
+  return {
+    nextPC: new Int32Array(warpSize),
+    address: new Uint32Array(warpSize),
+    data: new Uint32Array(warpSize),
+    faults: new Array(warpSize).fill(null),
+    faultCount: 0,
+    memory: null,
+    shared: null,
+    done: false,
+    barrier: false,
+  };
+}
+
+/**
+ * Execute `instruction`, fetched from `pc`, for each thread in `lanes`
+ */
+export function executeWarpInstruction(
+  instruction: Instruction,
+  pc: Address,
+  lanes: readonly ThreadState[],
+  context: WarpInstructionContext,
+  out: WarpInstructionResult
+): void {
+  const regs = context.registerFile.getRegisterArrays();
+  const nzp = context.registerFile.getConditionCodes();
+  const count = lanes.length;
+  const { opcode, rd, rs1, rs2, immediate } = instruction;
+
+  out.nextPC.fill(pc + 1, 0, count);
+  if (out.faultCount > 0) {
+    out.faults.fill(null);
+    out.faultCount = 0;
+  }
+  out.memory = null;
+  out.shared = null;
+  out.done = false;
+  out.barrier = false;
+  out.join = undefined;
+
+  const fault = (lane: number, kind: FaultKind) => {
+    out.faults[lane] = kind;
+    out.faultCount++;
+  };
+
+  // Writing R13-R15 faults every lane and the instruction acts as NOP
+  const writable = (reg: number) => {
+    if (!isReadOnlyRegister(reg)) {
+      return true;
+    }
+    for (let i = 0; i < count; i++) {
+      fault(i, 'read-only-register');
+    }
+    return false;
+  };
+
+  switch (opcode) {
+    case 'CONST':
+      if (rd !== undefined && immediate !== undefined && writable(rd)) {
+        const dst = regs[rd];
+        const value = immediate >>> 0;
+        for (let i = 0; i < count; i++) {
+          dst[lanes[i].id] = value;
+        }
+      }
+      break;
+
+    case 'ADD':
+    case 'SUB':
+    case 'MUL':
+    case 'DIV':
+    case 'AND':
+    case 'OR':
+    case 'XOR':
+    case 'SHL':
+    case 'SHR':
+    case 'SRA':
+      if (rd !== undefined && rs1 !== undefined && rs2 !== undefined && writable(rd)) {
+        const a = regs[rs1];
+        const b = regs[rs2];
+        const dst = regs[rd];
+        const checkZero = opcode === 'DIV';
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const divisor = b[id];
+          if (checkZero && divisor === 0) {
+            fault(i, 'divide-by-zero');
+          }
+          dst[id] = applyALU(opcode, a[id], divisor);
+        }
+      }
+      break;
+
+    case 'ADDI':
+    case 'MULI':
+    case 'ANDI':
+    case 'ORI':
+    case 'XORI':
+    case 'SHLI':
+    case 'SHRI':
+    case 'SRAI':
+      if (rd !== undefined && rs1 !== undefined && writable(rd)) {
+        const op = opcode.slice(0, -1); // ADDI -> ADD
+        const value = (immediate ?? 0) >>> 0;
+        const a = regs[rs1];
+        const dst = regs[rd];
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          dst[id] = applyALU(op, a[id], value);
+        }
+      }
+      break;
+
+    case 'MOV':
+      if (rd !== undefined && rs1 !== undefined && writable(rd)) {
+        const a = regs[rs1];
+        const dst = regs[rd];
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          dst[id] = a[id];
+        }
+      }
+      break;
+
+    case 'FADD':
+    case 'FSUB':
+    case 'FMUL':
+    case 'FDIV':
+    case 'FMA':
+    case 'FMAX':
+    case 'ITOF':
+    case 'FTOI':
+    case 'FEXP':
+      if (rd !== undefined && rs1 !== undefined && writable(rd)) {
+        const a = regs[rs1];
+        const b = regs[rs2 ?? 0];
+        const dst = regs[rd];
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          dst[id] = applyFloat(opcode, a[id], b[id], dst[id]);
+        }
+      }
+      break;
+
+    case 'LDR':
+      if (rd !== undefined && rs1 !== undefined && writable(rd)) {
+        const base = regs[rs1];
+        const offset = immediate || 0;
+        out.memory = 'read';
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const address = (base[id] + offset) >>> 0;
+          out.address[i] = address;
+          if (address >= context.memorySize) {
+            // Out of range: no request, the load returns 0
+            regs[rd][id] = 0;
+            fault(i, 'global-out-of-bounds');
+          }
+        }
+      }
+      break;
+
+    case 'STR':
+      if (rs1 !== undefined && rs2 !== undefined) {
+        const base = regs[rs1];
+        const source = regs[rs2];
+        const offset = immediate || 0;
+        out.memory = 'write';
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const address = (base[id] + offset) >>> 0;
+          out.address[i] = address;
+          out.data[i] = source[id];
+          if (address >= context.memorySize) {
+            fault(i, 'global-out-of-bounds');
+          }
+        }
+      }
+      break;
+
+    case 'LDS': {
+      const shared = context.sharedMemory;
+      if (rd !== undefined && rs1 !== undefined && shared && writable(rd)) {
+        const base = regs[rs1];
+        const dst = regs[rd];
+        const offset = immediate || 0;
+        out.shared = 'read';
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const address = (base[id] + offset) >>> 0;
+          out.address[i] = address;
+          dst[id] = shared[address] ?? 0;
+          if (address >= shared.length) {
+            fault(i, 'shared-out-of-bounds');
+          }
+        }
+      }
+      break;
+    }
+
+    case 'STS': {
+      const shared = context.sharedMemory;
+      if (rs1 !== undefined && rs2 !== undefined && shared) {
+        const base = regs[rs1];
+        const source = regs[rs2];
+        out.shared = 'write';
+        // Lane order matters: the last lane writing an address wins
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const address = base[id] >>> 0;
+          out.address[i] = address;
+          if (address >= shared.length) {
+            fault(i, 'shared-out-of-bounds');
+          } else {
+            shared[address] = source[id];
+          }
+        }
+      }
+      break;
+    }
+
+    case 'SYNC':
+      out.barrier = true;
+      break;
+
+    case 'JOIN':
+      out.join = pc + (immediate ?? 0);
+      break;
+
+    case 'BR':
+    case 'BRz':
+    case 'BRnz':
+    case 'BRn':
+    case 'BRp':
+      if (immediate !== undefined) {
+        executeWarpBranch(instruction, pc, lanes, regs, nzp, context.branchMode, out);
+      }
+      break;
+
+    case 'CMP':
+      if (rs1 !== undefined && rs2 !== undefined) {
+        const a = regs[rs1];
+        const b = regs[rs2];
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const x = a[id];
+          const y = b[id];
+          nzp[id] = (x | 0) < (y | 0) ? NZP_NEGATIVE : x === y ? NZP_ZERO : NZP_POSITIVE;
+        }
+      }
+      break;
+
+    case 'FCMP':
+      if (rs1 !== undefined && rs2 !== undefined) {
+        const a = regs[rs1];
+        const b = regs[rs2];
+        for (let i = 0; i < count; i++) {
+          const id = lanes[i].id;
+          const x = bitsToFloat(a[id]);
+          const y = bitsToFloat(b[id]);
+          // NaN sets no code, so only BR branches
+          nzp[id] =
+            Number.isNaN(x) || Number.isNaN(y) ? 0 : x < y ? NZP_NEGATIVE : x === y ? NZP_ZERO : NZP_POSITIVE;
+        }
+      }
+      break;
+
+    case 'RET':
+      out.done = true;
+      out.nextPC.fill(pc, 0, count);
+      break;
+
+    default:
+      break; // NOP
+  }
+}
+
+/**
+ * Per-lane branch decision: in 'nzp' mode the condition codes from the
+ * last CMP are tested; in 'register' mode the value of rs1 is tested
+ * (BRnz = not zero)
+ */
+function executeWarpBranch(
+  instruction: Instruction,
+  pc: Address,
+  lanes: readonly ThreadState[],
+  regs: readonly Uint32Array[],
+  nzp: Uint8Array,
+  branchMode: BranchMode,
+  out: WarpInstructionResult
+): void {
+  const { opcode, rs1 } = instruction;
+  const target = pc + (instruction.immediate as number);
+  const count = lanes.length;
+
+  if (opcode === 'BR') {
+    out.nextPC.fill(target, 0, count);
+    return;
+  }
+
+  if (branchMode === 'nzp') {
+    const mask = BRANCH_NZP_MASK[opcode];
+    for (let i = 0; i < count; i++) {
+      if ((nzp[lanes[i].id] & mask) !== 0) {
+        out.nextPC[i] = target;
+      }
+    }
+    return;
+  }
+
+  if (rs1 === undefined) {
+    return;
+  }
+  const values = regs[rs1];
+  for (let i = 0; i < count; i++) {
+    const value = values[lanes[i].id];
+    const isZero = value === 0;
+    const isNegative = (value & 0x80000000) !== 0;
+    const taken =
+      opcode === 'BRz'
+        ? isZero
+        : opcode === 'BRnz'
+          ? !isZero
+          : opcode === 'BRn'
+            ? isNegative
+            : !isNegative && !isZero; // BRp
+    if (taken) {
+      out.nextPC[i] = target;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Kernel Library
+ */
+
+export {
+  MATADD_KERNEL,
+  MATMUL_KERNEL,
+  VECTOR_SCALE_KERNEL,
+  TRANSPOSE_KERNEL,
+  REDUCE_SUM_KERNEL,
+  SCAN_BLOCK_KERNEL,
+  SCAN_ADD_KERNEL,
+  QUANTIZED_LINEAR_KERNEL,
+  RELU_KERNEL,
+  SILU_KERNEL,
+  VECTOR_MULTIPLY_KERNEL,
+} from './sources';
+export { KernelLibrary, type KernelLibraryOptions, type KernelRun } from './kernel-library';
@@ -0,0 +1,342 @@
+/**
+ * Kernel Library
+ * Host wrappers for the kernels in sources.ts: lay out global memory,
+ * launch on an ExecutionEngine and read back typed results
+ */
+
+import type { Word } from '../types';
+import { bitsToFloat, floatToBits } from '../core/execution-unit';
+import { Assembler } from '../instruction-set/assembler';
+import type { ExecutionEngine, LaunchResult } from '../execution/execution-engine';
+import {
+  MATADD_KERNEL,
+  MATMUL_KERNEL,
+  VECTOR_SCALE_KERNEL,
+  TRANSPOSE_KERNEL,
+  REDUCE_SUM_KERNEL,
+  SCAN_BLOCK_KERNEL,
+  SCAN_ADD_KERNEL,
+  QUANTIZED_LINEAR_KERNEL,
+  RELU_KERNEL,
+  SILU_KERNEL,
+  VECTOR_MULTIPLY_KERNEL,
+} from './sources';
+
+export interface KernelLibraryOptions {
+  blockDim?: number; // Threads per block; a power of two for reduce/scan (default 32)
+}
+
+/**
+ * Output of a host wrapper, with the launches it took
+ */
+export interface KernelRun<T> {
+  result: T;
+  cycles: number; // Summed over all launches
+  launches: LaunchResult[];
+}
+
+/**
+ * Consecutive regions of global memory, starting at address 0
+ */
+class MemoryLayout {
+  readonly image: Word[] = [];
+
+  /**
+   * Append a region holding `values` and return its base address
+   */
+  place(values: ArrayLike<number>): number {
+    const base = this.image.length;
+    for (let i = 0; i < values.length; i++) {
+      this.image.push(values[i] >>> 0);
+    }
+    return base;
+  }
+
+  /**
+   * Append a zeroed region of `size` words and return its base address
+   */
+  reserve(size: number): number {
+    return this.place(new Array(size).fill(0));
+  }
+}
+
+export class KernelLibrary {
+  private engine: ExecutionEngine;
+  private blockDim: number;
+  private programs: Map<string, Word[]> = new Map(); // Assembled once per source
+
+  constructor(engine: ExecutionEngine, options: KernelLibraryOptions = {}) {
+    const blockDim = options.blockDim ?? 32;
+    if (!Number.isInteger(blockDim) || blockDim < 1) {
+      throw new Error(`blockDim must be a positive integer, got ${blockDim}`);
+    }
+    this.engine = engine;
+    this.blockDim = blockDim;
+  }
+
+  /**
+   * Element-wise sum of two int32 arrays (tiny-gpu's matadd)
+   */
+  matadd(a: ArrayLike<number>, b: ArrayLike<number>): KernelRun<Int32Array> {
+    if (a.length !== b.length) {
+      throw new Error(`matadd operands differ in length: ${a.length} vs ${b.length}`);
+    }
+    const n = a.length;
+    const layout = new MemoryLayout();
+    const aBase = layout.place(a);
+    const bBase = layout.place(b);
+    const cBase = layout.reserve(n);
+
+    const launch = this.run('matadd', MATADD_KERNEL, n, layout, [aBase, bBase, cBase, n]);
+    return this.single(launch, Int32Array.from(launch.memory.slice(cBase, cBase + n)));
+  }
+
+  /**
+   * Product of row-major int32 matrices: (m x k) x (k x n) -> (m x n)
+   */
+  matmul(a: ArrayLike<number>, b: ArrayLike<number>, m: number, k: number, n: number): KernelRun<Int32Array> {
+    if (m < 1 || k < 1 || n < 1) {
+      throw new Error(`matmul dimensions must be positive, got ${m}x${k} by ${k}x${n}`);
+    }
+    if (a.length !== m * k || b.length !== k * n) {
+      throw new Error(`matmul expects ${m * k} and ${k * n} elements, got ${a.length} and ${b.length}`);
+    }
+    const layout = new MemoryLayout();
+    const aBase = layout.place(a);
+    const bBase = layout.place(b);
+    const cBase = layout.reserve(m * n);
+
+    const launch = this.run('matmul', MATMUL_KERNEL, m * n, layout, [aBase, bBase, cBase, k, n, m * n]);
+    return this.single(launch, Int32Array.from(launch.memory.slice(cBase, cBase + m * n)));
+  }
+
+  /**
+   * Multiply a float32 vector by a scalar
+   */
+  vectorScale(x: ArrayLike<number>, scale: number): KernelRun<Float32Array> {
+    const n = x.length;
+    const layout = new MemoryLayout();
+    const xBase = layout.place(Array.from(x, floatToBits));
+    const yBase = layout.reserve(n);
+
+    const launch = this.run('vectorScale', VECTOR_SCALE_KERNEL, n, layout, [xBase, yBase, n, floatToBits(scale)]);
+    return this.single(launch, Float32Array.from(launch.memory.slice(yBase, yBase + n), bitsToFloat));
+  }
+
+  /**
+   * Element-wise product of two float32 arrays
+   */
+  vectorMultiply(a: ArrayLike<number>, b: ArrayLike<number>): KernelRun<Float32Array> {
+    if (a.length !== b.length) {
+      throw new Error(`vectorMultiply operands differ in length: ${a.length} vs ${b.length}`);
+    }
+    const n = a.length;
+    const layout = new MemoryLayout();
+    const aBase = layout.place(Array.from(a, floatToBits));
+    const bBase = layout.place(Array.from(b, floatToBits));
+    const cBase = layout.reserve(n);
+
+    const launch = this.run('vectorMultiply', VECTOR_MULTIPLY_KERNEL, n, layout, [aBase, bBase, cBase, n]);
+    return this.single(launch, Float32Array.from(launch.memory.slice(cBase, cBase + n), bitsToFloat));
+  }
+
+  /**
+   * Integer linear layer on int8 activations and uint8 weight codes:
+   * y[r][j] = sum over k of x[r][k] * (w[j][k] - zeroPoints[j])
+   * `x` is m x k, `w` is n x k (one row per output), result is m x n int32
+   */
+  quantizedLinear(
+    x: ArrayLike<number>,
+    w: ArrayLike<number>,
+    zeroPoints: ArrayLike<number>,
+    m: number,
+    k: number,
+    n: number
+  ): KernelRun<Int32Array> {
+    if (m < 1 || k < 1 || n < 1) {
+      throw new Error(`quantizedLinear dimensions must be positive, got m=${m} k=${k} n=${n}`);
+    }
+    if (x.length !== m * k || w.length !== n * k || zeroPoints.length !== n) {
+      throw new Error(
+        `quantizedLinear expects ${m * k}, ${n * k} and ${n} elements, got ${x.length}, ${w.length} and ${zeroPoints.length}`
+      );
+    }
+    const layout = new MemoryLayout();
+    const xBase = layout.place(x);
+    const wBase = layout.place(w);
+    const zpBase = layout.place(zeroPoints);
+    const yBase = layout.reserve(m * n);
+
+    const launch = this.run('quantizedLinear', QUANTIZED_LINEAR_KERNEL, m * n, layout, [
+      xBase,
+      wBase,
+      zpBase,
+      yBase,
+      k,
+      n,
+      m * n,
+    ]);
+    return this.single(launch, Int32Array.from(launch.memory.slice(yBase, yBase + m * n)));
+  }
+
+  /**
+   * max(x, 0) of an int32 array
+   */
+  relu(values: ArrayLike<number>): KernelRun<Int32Array> {
+    const n = values.length;
+    const layout = new MemoryLayout();
+    const inBase = layout.place(values);
+    const outBase = layout.reserve(n);
+
+    const launch = this.run('relu', RELU_KERNEL, n, layout, [inBase, outBase, n]);
+    return this.single(launch, Int32Array.from(launch.memory.slice(outBase, outBase + n)));
+  }
+
+  /**
+   * SiLU of quantized int32 codes (x = code * scale), as float32
+   */
+  silu(codes: ArrayLike<number>, scale: number): KernelRun<Float32Array> {
+    const n = codes.length;
+    const layout = new MemoryLayout();
+    const inBase = layout.place(codes);
+    const outBase = layout.reserve(n);
+
+    const launch = this.run('silu', SILU_KERNEL, n, layout, [inBase, outBase, n, floatToBits(scale), floatToBits(1)]);
+    return this.single(launch, Float32Array.from(launch.memory.slice(outBase, outBase + n), bitsToFloat));
+  }
+
+  /**
+   * Transpose a row-major rows x cols matrix
+   */
+  transpose(a: ArrayLike<number>, rows: number, cols: number): KernelRun<Int32Array> {
+    if (a.length !== rows * cols) {
+      throw new Error(`transpose expects ${rows * cols} elements, got ${a.length}`);
+    }
+    const n = rows * cols;
+    const layout = new MemoryLayout();
+    const aBase = layout.place(a);
+    const bBase = layout.reserve(n);
+
+    const launch = this.run('transpose', TRANSPOSE_KERNEL, n, layout, [aBase, bBase, rows, cols, n]);
+    return this.single(launch, Int32Array.from(launch.memory.slice(bBase, bBase + n)));
+  }
+
+  /**
+   * Sum of an int32 array (wrapping), reduced block by block until one
+   * value is left
+   */
+  reduceSum(values: ArrayLike<number>): KernelRun<number> {
+    this.requirePowerOfTwoBlocks('reduceSum');
+    const launches: LaunchResult[] = [];
+    let current = Int32Array.from(values);
+
+    do {
+      const n = current.length;
+      const blocks = Math.max(1, Math.ceil(n / this.blockDim));
+      const layout = new MemoryLayout();
+      const inBase = layout.place(current);
+      const outBase = layout.reserve(blocks);
+
+      const launch = this.run('reduceSum', REDUCE_SUM_KERNEL, n, layout, [inBase, outBase, n]);
+      launches.push(launch);
+      current = Int32Array.from(launch.memory.slice(outBase, outBase + blocks));
+    } while (current.length > 1);
+
+    return this.multiple(launches, current[0]);
+  }
+
+  /**
+   * Inclusive prefix sum of an int32 array (wrapping): each block is
+   * scanned, the block totals are scanned recursively and added back
+   */
+  prefixSum(values: ArrayLike<number>): KernelRun<Int32Array> {
+    this.requirePowerOfTwoBlocks('prefixSum');
+    const launches: LaunchResult[] = [];
+    const result = this.scan(Int32Array.from(values), launches);
+    return this.multiple(launches, result);
+  }
+
+  /**
+   * Scan `values`, appending every launch to `launches`
+   */
+  private scan(values: Int32Array, launches: LaunchResult[]): Int32Array {
+    const n = values.length;
+    if (n === 0) {
+      return new Int32Array(0);
+    }
+    const blocks = Math.ceil(n / this.blockDim);
+
+    const layout = new MemoryLayout();
+    const inBase = layout.place(values);
+    const outBase = layout.reserve(n);
+    const sumsBase = layout.reserve(blocks);
+    const scanned = this.run('prefixSum', SCAN_BLOCK_KERNEL, n, layout, [inBase, outBase, n, sumsBase]);
+    launches.push(scanned);
+
+    const result = Int32Array.from(scanned.memory.slice(outBase, outBase + n));
+    if (blocks === 1) {
+      return result;
+    }
+
+    const sums = this.scan(Int32Array.from(scanned.memory.slice(sumsBase, sumsBase + blocks)), launches);
+    const addLayout = new MemoryLayout();
+    const dataBase = addLayout.place(result);
+    const offsetsBase = addLayout.place(sums);
+    const added = this.run('prefixSum', SCAN_ADD_KERNEL, n, addLayout, [dataBase, offsetsBase, n]);
+    launches.push(added);
+
+    return Int32Array.from(added.memory.slice(dataBase, dataBase + n));
+  }
+
+  /**
+   * Launch `source` over `threads` threads and check that it completed
+   */
+  private run(name: string, source: string, threads: number, layout: MemoryLayout, args: Word[]): LaunchResult {
+    let program = this.programs.get(source);
+    if (!program) {
+      program = new Assembler().assemble(source);
+      this.programs.set(source, program);
+    }
+
+    const result = this.engine.launch({
+      program,
+      gridDim: Math.max(1, Math.ceil(threads / this.blockDim)),
+      blockDim: this.blockDim,
+      memoryImage: layout.image,
+      args,
+    });
+
+    if (!result.completed) {
+      const reason = result.faults.length > 0 ? result.faults[0].message : `stopped after ${result.cycles} cycles`;
+      throw new Error(`Kernel ${name} did not complete: ${reason}`);
+    }
+    return result;
+  }
+
+  /**
+   * Wrap the result of a single launch
+   */
+  private single<T>(launch: LaunchResult, result: T): KernelRun<T> {
+    return this.multiple([launch], result);
+  }
+
+  /**
+   * Wrap the result of several launches
+   */
+  private multiple<T>(launches: LaunchResult[], result: T): KernelRun<T> {
+    return {
+      result,
+      cycles: launches.reduce((sum, launch) => sum + launch.cycles, 0),
+      launches,
+    };
+  }
+
+  /**
+   * Shared-memory tree kernels halve the block each step
+   */
+  private requirePowerOfTwoBlocks(name: string): void {
+    if ((this.blockDim & (this.blockDim - 1)) !== 0) {
+      throw new Error(`${name} needs a power-of-two blockDim, got ${this.blockDim}`);
+    }
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Kernel Sources
+ * tiny-gpu assembly for the kernel library
+ *
+ * Every kernel uses one thread per output element, with the global index
+ * %blockIdx * %blockDim + %threadIdx; threads past the end return at once.
+ * Arguments arrive in R0..R(n-1) (see LaunchOptions.args).
+ */
+
+/**
+ * C[i] = A[i] + B[i] (int32, wrapping)
+ * Args: R0 = A, R1 = B, R2 = C, R3 = n
+ */
+export const MATADD_KERNEL = `
+  MUL R4, %blockIdx, %blockDim
+  ADD R4, R4, %threadIdx        ; i
+  CMP R4, R3
+  BRn body
+  RET
+body:
+  ADD R5, R0, R4
+  LDR R5, R5                    ; A[i]
+  ADD R6, R1, R4
+  LDR R6, R6                    ; B[i]
+  ADD R5, R5, R6
+  ADD R6, R2, R4
+  STR R6, R5
+  RET
+`;
+
+/**
+ * C = A x B for row-major int32 matrices (M x K times K x N), K >= 1
+ * Args: R0 = A, R1 = B, R2 = C, R3 = K, R4 = N, R5 = M * N
+ */
+export const MATMUL_KERNEL = `
+  MUL R6, %blockIdx, %blockDim
+  ADD R6, R6, %threadIdx        ; idx = row * N + col
+  CMP R6, R5
+  BRn body
+  RET
+body:
+  DIV R7, R6, R4                ; row
+  MUL R8, R7, R4
+  SUB R8, R6, R8                ; col
+  MUL R7, R7, R3
+  ADD R7, R7, R0                ; &A[row][0]
+  ADD R8, R8, R1                ; &B[0][col]
+  CONST R9, #0                  ; sum
+  CONST R10, #0                 ; k
+loop:
+  LDR R11, R7
+  LDR R12, R8
+  MUL R11, R11, R12
+  ADD R9, R9, R11
+  ADDI R7, R7, #1               ; next column of A
+  ADD R8, R8, R4                ; next row of B
+  ADDI R10, R10, #1
+  CMP R10, R3
+  BRn loop
+  ADD R6, R6, R2
+  STR R6, R9
+  RET
+`;
+
+/**
+ * Y[i] = a * X[i] (float32)
+ * Args: R0 = X, R1 = Y, R2 = n, R3 = a (float bits)
+ */
+export const VECTOR_SCALE_KERNEL = `
+  MUL R4, %blockIdx, %blockDim
+  ADD R4, R4, %threadIdx        ; i
+  CMP R4, R2
+  BRn body
+  RET
+body:
+  ADD R5, R0, R4
+  LDR R5, R5
+  FMUL R5, R5, R3
+  ADD R6, R1, R4
+  STR R6, R5
+  RET
+`;
+
+/**
+ * B[c][r] = A[r][c] for a row-major rows x cols matrix
+ * Args: R0 = A, R1 = B, R2 = rows, R3 = cols, R4 = rows * cols
+ */
+export const TRANSPOSE_KERNEL = `
+  MUL R5, %blockIdx, %blockDim
+  ADD R5, R5, %threadIdx        ; idx = r * cols + c
+  CMP R5, R4
+  BRn body
+  RET
+body:
+  DIV R6, R5, R3                ; r
+  MUL R7, R6, R3
+  SUB R7, R5, R7                ; c
+  ADD R8, R0, R5
+  LDR R8, R8                    ; A[r][c]
+  MUL R7, R7, R2
+  ADD R7, R7, R6
+  ADD R7, R7, R1                ; &B[c][r]
+  STR R7, R8
+  RET
+`;
+
+/**
+ * Tree reduction in shared memory: OUT[b] = sum of block b's elements
+ * (int32, wrapping). %blockDim must be a power of two.
+ * Args: R0 = IN, R1 = OUT, R2 = n
+ */
+export const REDUCE_SUM_KERNEL = `
+  CONST R12, #0
+  MUL R3, %blockIdx, %blockDim
+  ADD R3, R3, %threadIdx        ; i
+  CONST R4, #0                  ; 0 past the end
+  CMP R3, R2
+  BRn load
+  BR stage
+load:
+  ADD R5, R0, R3
+  LDR R4, R5
+stage:
+  STS %threadIdx, R4
+  SYNC
+  SHRI R5, %blockDim, #1        ; stride
+loop:
+  CMP R5, R12
+  BRz done
+  CMP %threadIdx, R5
+  BRn add
+  BR next
+add:
+  ADD R6, %threadIdx, R5
+  LDS R6, R6
+  LDS R7, %threadIdx
+  ADD R7, R7, R6
+  STS %threadIdx, R7
+next:
+  SYNC
+  SHRI R5, R5, #1
+  BR loop
+done:
+  CMP %threadIdx, R12
+  BRz write
+  RET
+write:
+  LDS R6, R12
+  ADD R7, R1, %blockIdx
+  STR R7, R6
+  RET
+`;
+
+/**
+ * Inclusive scan of each block (Hillis-Steele in shared memory):
+ * OUT[i] = IN[start of block] + ... + IN[i], SUMS[b] = block b's total
+ * Args: R0 = IN, R1 = OUT, R2 = n, R3 = SUMS
+ */
+export const SCAN_BLOCK_KERNEL = `
+  MUL R4, %blockIdx, %blockDim
+  ADD R4, R4, %threadIdx        ; i
+  CONST R5, #0                  ; 0 past the end
+  CMP R4, R2
+  BRn load
+  BR stage
+load:
+  ADD R6, R0, R4
+  LDR R5, R6
+stage:
+  STS %threadIdx, R5
+  SYNC
+  CONST R6, #1                  ; offset
+loop:
+  CMP R6, %blockDim
+  BRn step
+  BR done
+step:
+  LDS R5, %threadIdx
+  CMP %threadIdx, R6
+  BRn wait
+  SUB R7, %threadIdx, R6
+  LDS R7, R7
+  ADD R5, R5, R7
+wait:
+  SYNC                          ; everyone has read before anyone writes
+  STS %threadIdx, R5
+  SYNC
+  SHLI R6, R6, #1
+  BR loop
+done:
+  CMP R4, R2
+  BRn write
+  BR total
+write:
+  ADD R7, R1, R4
+  STR R7, R5
+total:
+  ADDI R7, %blockDim, #-1
+  CMP %threadIdx, R7
+  BRz last
+  RET
+last:
+  ADD R7, R3, %blockIdx
+  STR R7, R5
+  RET
+`;
+
+/**
+ * Second scan pass: DATA[i] += SUMS[b - 1] for every block b > 0, where
+ * SUMS holds the inclusive scan of the block totals
+ * Args: R0 = DATA, R1 = SUMS, R2 = n
+ */
+export const SCAN_ADD_KERNEL = `
+  CONST R12, #0
+  CMP %blockIdx, R12
+  BRz exit
+  MUL R4, %blockIdx, %blockDim
+  ADD R4, R4, %threadIdx        ; i
+  CMP R4, R2
+  BRn body
+exit:
+  RET
+body:
+  ADD R5, R1, %blockIdx
+  LDR R5, [R5 + #-1]            ; SUMS[b - 1]
+  ADD R6, R0, R4
+  LDR R7, R6
+  ADD R7, R7, R5
+  STR R6, R7
+  RET
+`;
+
+/**
+ * Quantized linear layer: Y[r][j] = sum over k of X[r][k] * (W[j][k] - ZP[j])
+ * X is M x K (signed int8 values), W is N x K (uint8 codes, one row per
+ * output feature), Y is M x N int32 accumulators
+ * Args: R0 = X, R1 = W, R2 = ZP, R3 = Y, R4 = K, R5 = N, R6 = M * N
+ */
+export const QUANTIZED_LINEAR_KERNEL = `
+  MUL R7, %blockIdx, %blockDim
+  ADD R7, R7, %threadIdx        ; idx = r * N + j
+  CMP R7, R6
+  BRn body
+  RET
+body:
+  DIV R8, R7, R5                ; r
+  MUL R9, R8, R5
+  SUB R9, R7, R9                ; j
+  ADD R10, R2, R9
+  LDR R10, R10                  ; ZP[j]
+  MUL R8, R8, R4
+  ADD R8, R8, R0                ; &X[r][0]
+  MUL R9, R9, R4
+  ADD R9, R9, R1                ; &W[j][0]
+  ADD R12, R8, R4               ; end of row r of X
+  CONST R11, #0                 ; sum
+loop:
+  LDR R5, R8                    ; N and M * N are no longer needed
+  LDR R6, R9
+  SUB R6, R6, R10
+  MUL R5, R5, R6
+  ADD R11, R11, R5
+  ADDI R8, R8, #1
+  ADDI R9, R9, #1
+  CMP R8, R12
+  BRn loop
+  ADD R7, R7, R3
+  STR R7, R11
+  RET
+`;
+
+/**
+ * OUT[i] = max(IN[i], 0) (int32)
+ * Args: R0 = IN, R1 = OUT, R2 = n
+ */
+export const RELU_KERNEL = `
+  MUL R3, %blockIdx, %blockDim
+  ADD R3, R3, %threadIdx        ; i
+  CMP R3, R2
+  BRn body
+  RET
+body:
+  ADD R4, R0, R3
+  LDR R4, R4
+  CONST R5, #0
+  CMP R4, R5
+  BRp store
+  CONST R4, #0
+store:
+  ADD R5, R1, R3
+  STR R5, R4
+  RET
+`;
+
+/**
+ * OUT[i] = x / (1 + e^-x) with x = IN[i] * scale: SiLU of int32 codes,
+ * producing float32 (e^x is FEXP's polynomial approximation)
+ * Args: R0 = IN, R1 = OUT, R2 = n, R3 = scale (float bits), R4 = 1.0 (float bits)
+ */
+export const SILU_KERNEL = `
+  MUL R5, %blockIdx, %blockDim
+  ADD R5, R5, %threadIdx        ; i
+  CMP R5, R2
+  BRn body
+  RET
+body:
+  ADD R6, R0, R5
+  LDR R6, R6
+  ITOF R6, R6
+  FMUL R6, R6, R3               ; x
+  CONST R7, #0                  ; 0.0
+  FSUB R7, R7, R6
+  FEXP R7, R7                   ; e^-x
+  FADD R7, R7, R4
+  FDIV R7, R6, R7
+  ADD R8, R1, R5
+  STR R8, R7
+  RET
+`;
+
+/**
+ * C[i] = A[i] * B[i] (float32)
+ * Args: R0 = A, R1 = B, R2 = C, R3 = n
+ */
+export const VECTOR_MULTIPLY_KERNEL = `
+  MUL R4, %blockIdx, %blockDim
+  ADD R4, R4, %threadIdx        ; i
+  CMP R4, R3
+  BRn body
+  RET
+body:
+  ADD R5, R0, R4
+  LDR R5, R5
+  ADD R6, R1, R4
+  LDR R6, R6
+  FMUL R5, R5, R6
+  ADD R6, R2, R4
+  STR R6, R5
+  RET
+`;
@@ -1,19 +1,129 @@
 /**
  * Cache Implementation
  * Ported from tiny-gpu Verilog cache
- * Implements a simple direct-mapped cache
+ * Implements a set-associative cache with configurable replacement and
+ * write policies (defaults to a direct-mapped, write-through cache).
+ * A cache may sit in front of another cache (L1 -> L2 -> global memory).
  */
 
-import type { Word, Address, CacheLine, MemoryConfig } from '../types';
+import type { Word, Address, CacheLine, MemoryConfig, ReplacementPolicy, WritePolicy } from '../types';
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number; // Valid lines replaced
+  dirtyWritebacks: number; // Dirty lines written back to memory
+  compulsoryMisses: number; // First reference to a line
+  capacityMisses: number; // Would also miss in a fully-associative cache of the same size
+  conflictMisses: number; // Caused by limited associativity
+}
+
+/**
+ * A line the cache read from or wrote to global memory (see Cache.takeMemoryTraffic)
+ */
+export interface MemoryTraffic {
+  address: Address; // Line base address
+  write: boolean;
+}
+
+/**
+ * Plain-data copy of a cache (see Cache.snapshot)
+ */
+export interface CacheSnapshot {
+  lines: CacheLine[];
+  lastUsed: number[];
+  filledAt: number[];
+  clock: number;
+  randomState: number;
+  referencedLines: number[];
+  shadow: number[]; // Least recently used first
+  counters: {
+    hits: number;
+    misses: number;
+    evictions: number;
+    dirtyWritebacks: number;
+    compulsoryMisses: number;
+    capacityMisses: number;
+    conflictMisses: number;
+  };
+}
+
+/**
+ * Build the shared L2 described by `config.l2`, or null if there is none
+ */
+export function createL2Cache(config: MemoryConfig): Cache | null {
+  if (!config.l2) {
+    return null;
+  }
+  return new Cache({
+    ...config,
+    cacheSize: config.l2.cacheSize,
+    cacheHitLatency: config.l2.hitLatency,
+    associativity: config.l2.associativity,
+    replacementPolicy: config.l2.replacementPolicy,
+    writePolicy: config.l2.writePolicy ?? 'write-back',
+    writeAllocate: true,
+    l2: undefined,
+  });
+}
 
 export class Cache {
-  private lines: CacheLine[];
+  private lines: CacheLine[]; // Set-major: ways of set s are at [s * associativity, (s + 1) * associativity)
   private config: MemoryConfig;
+  private readonly associativity: number;
+  private readonly numSets: number;
+  private readonly replacementPolicy: ReplacementPolicy;
+  private readonly writePolicy: WritePolicy;
+  private readonly writeAllocate: boolean;
+  private readonly nextLevel: Cache | null; // Next cache down, or null for global memory
+  private lastUsed: number[]; // Per-line access stamp (LRU)
+  private filledAt: number[]; // Per-line fill stamp (FIFO)
+  private clock = 0;
+  private randomState = 1;
+  private memoryTraffic: MemoryTraffic[] = []; // Since the last takeMemoryTraffic
+
+  // Miss classification: every line ever referenced, and a fully-associative
+  // LRU shadow cache with the same capacity
+  private referencedLines: Set<number> = new Set();
+  private shadow: Map<number, true> = new Map();
+  private shadowMostRecent = -1; // Last key of `shadow`
+
   private hits: number = 0;
   private misses: number = 0;
+  private evictions: number = 0;
+  private dirtyWritebacks: number = 0;
+  private compulsoryMisses: number = 0;
+  private capacityMisses: number = 0;
+  private conflictMisses: number = 0;
 
-  constructor(config: MemoryConfig) {
+  /**
+   * @param nextLevel Cache that misses and write-backs go to (same line size); global memory if null
+   */
+  constructor(config: MemoryConfig, nextLevel: Cache | null = null) {
     this.config = config;
+    this.nextLevel = nextLevel;
+    this.associativity = config.associativity ?? 1;
+    this.replacementPolicy = config.replacementPolicy ?? 'lru';
+    this.writePolicy = config.writePolicy ?? 'write-through';
+    this.writeAllocate = config.writeAllocate ?? true;
+
+    if (
+      !Number.isInteger(this.associativity) ||
+      this.associativity < 1 ||
+      config.cacheSize % this.associativity !== 0
+    ) {
+      throw new Error(
+        `Cache size ${config.cacheSize} must be a multiple of associativity ${this.associativity}`
+      );
+    }
+    this.numSets = config.cacheSize / this.associativity;
+    if (nextLevel && nextLevel.config.lineSize !== config.lineSize) {
+      throw new Error(
+        `Line size ${config.lineSize} does not match the next cache level's ${nextLevel.config.lineSize}`
+      );
+    }
+
     this.lines = new Array(config.cacheSize);
     for (let i = 0; i < config.cacheSize; i++) {
       this.lines[i] = {
@@ -23,108 +133,365 @@ export class Cache {
         dirty: false,
       };
     }
+    this.lastUsed = new Array(config.cacheSize).fill(0);
+    this.filledAt = new Array(config.cacheSize).fill(0);
   }
 
   /**
    * Read from cache
-   * Returns { data, hit } where hit indicates cache hit
+   * Returns { data, hit } where hit indicates cache hit; on a miss,
+   * nextLevelHit tells whether the next cache level (if any) had the line
+   * A `coalesced` access shares a transaction that already looked its line
+   * up, so it is not counted as a hit or miss.
    */
-  read(address: Address, memory: Word[]): { data: Word; hit: boolean } {
-    const lineIndex = this.getLineIndex(address);
-    const tag = this.getTag(address);
+  read(
+    address: Address,
+    memory: Uint32Array,
+    coalesced = false
+  ): { data: Word; hit: boolean; nextLevelHit?: boolean } {
     const offset = this.getOffset(address);
+    const way = this.lookup(address);
 
-    const line = this.lines[lineIndex];
-
-    if (line.valid && line.tag === tag) {
+    if (way !== -1) {
       // Cache hit
-      this.hits++;
-      return { data: line.data[offset], hit: true };
+      if (!coalesced) {
+        this.hits++;
+      }
+      this.touch(way, address);
+      return { data: this.lines[way].data[offset], hit: true };
     }
 
-    // Cache miss - load from memory
-    this.misses++;
-    this.loadLine(address, memory);
-    return { data: this.lines[lineIndex].data[offset], hit: false };
+    // Cache miss - load from the next level
+    if (!coalesced) {
+      this.recordMiss(address);
+    }
+    const filled = this.loadLine(address, memory);
+    return { data: this.lines[filled.way].data[offset], hit: false, nextLevelHit: filled.nextLevelHit };
   }
 
   /**
-   * Write to cache
-   * Returns true if write-through, false if write-back
+   * Write to cache according to the write policy
+   * Returns { hit } where hit indicates cache hit
+   * A `coalesced` access is not counted as a hit or miss (see read).
    */
-  write(address: Address, data: Word, memory: Word[]): boolean {
-    const lineIndex = this.getLineIndex(address);
-    const tag = this.getTag(address);
+  write(
+    address: Address,
+    data: Word,
+    memory: Uint32Array,
+    coalesced = false
+  ): { hit: boolean; nextLevelHit?: boolean } {
     const offset = this.getOffset(address);
+    let way = this.lookup(address);
+    const hit = way !== -1;
+    let nextLevelHit: boolean | undefined;
 
-    const line = this.lines[lineIndex];
+    if (hit) {
+      if (!coalesced) {
+        this.hits++;
+      }
+      this.touch(way, address);
+    } else {
+      if (!coalesced) {
+        this.recordMiss(address);
+      }
+      if (!this.writeAllocate) {
+        // No-allocate: bypass the cache entirely
+        return { hit: false, nextLevelHit: this.storeWord(address, data, memory, coalesced) };
+      }
+      const filled = this.loadLine(address, memory);
+      way = filled.way;
+      nextLevelHit = filled.nextLevelHit;
+    }
 
-    if (line.valid && line.tag === tag) {
-      // Cache hit - write to cache
-      line.data[offset] = data;
+    const line = this.lines[way];
+    line.data[offset] = data;
+    if (this.writePolicy === 'write-through') {
+      this.storeWord(address, data, memory, coalesced);
+    } else {
       line.dirty = true;
+    }
+    return { hit, nextLevelHit };
+  }
+
+  /**
+   * Read a whole line on behalf of the cache above (one access)
+   */
+  readLine(baseAddress: Address, memory: Uint32Array): { data: Word[]; hit: boolean } {
+    const way = this.lookup(baseAddress);
+    if (way !== -1) {
       this.hits++;
-      // Write-through for simplicity
-      memory[address] = data;
-      return true;
+      this.touch(way, baseAddress);
+      return { data: [...this.lines[way].data], hit: true };
     }
 
-    // Cache miss - load line first
-    this.misses++;
-    this.loadLine(address, memory);
-    this.lines[lineIndex].data[offset] = data;
-    this.lines[lineIndex].dirty = true;
-    memory[address] = data;
-    return true;
+    this.recordMiss(baseAddress);
+    const filled = this.loadLine(baseAddress, memory);
+    return { data: [...this.lines[filled.way].data], hit: false };
+  }
+
+  /**
+   * Write a whole line on behalf of the cache above (one access)
+   */
+  writeLine(baseAddress: Address, data: Word[], memory: Uint32Array): { hit: boolean } {
+    let way = this.lookup(baseAddress);
+    const hit = way !== -1;
+
+    if (hit) {
+      this.hits++;
+      this.touch(way, baseAddress);
+    } else {
+      this.recordMiss(baseAddress);
+      if (!this.writeAllocate) {
+        this.storeLine(baseAddress, data, memory);
+        return { hit: false };
+      }
+      way = this.loadLine(baseAddress, memory).way;
+    }
+
+    const line = this.lines[way];
+    line.data = [...data];
+    if (this.writePolicy === 'write-through') {
+      this.storeLine(baseAddress, data, memory);
+    } else {
+      line.dirty = true;
+    }
+    return { hit };
+  }
+
+  /**
+   * Move the lines this cache and the levels below it have read from or
+   * written to global memory since the last call into `out`, oldest first
+   */
+  takeMemoryTraffic(out: MemoryTraffic[]): void {
+    this.nextLevel?.takeMemoryTraffic(out);
+    if (this.memoryTraffic.length > 0) {
+      out.push(...this.memoryTraffic);
+      this.memoryTraffic.length = 0;
+    }
   }
 
   /**
-   * Load a cache line from memory
+   * Read a word without touching replacement state or statistics
+   * Returns the cached value if present, otherwise memory
    */
-  private loadLine(address: Address, memory: Word[]): void {
-    const lineIndex = this.getLineIndex(address);
+  peek(address: Address, memory: Uint32Array): Word {
+    const way = this.lookup(address);
+    if (way !== -1) {
+      return this.lines[way].data[this.getOffset(address)];
+    }
+    return this.nextLevel ? this.nextLevel.peek(address, memory) : memory[address];
+  }
+
+  /**
+   * Find the way holding an address, or -1
+   */
+  private lookup(address: Address): number {
+    const set = this.getSetIndex(address);
     const tag = this.getTag(address);
-    const baseAddress = (address >> 2) << 2; // Align to line boundary
+    const first = set * this.associativity;
 
-    const line = this.lines[lineIndex];
+    for (let way = first; way < first + this.associativity; way++) {
+      const line = this.lines[way];
+      if (line.valid && line.tag === tag) {
+        return way;
+      }
+    }
+    return -1;
+  }
 
-    // Write back if dirty
-    if (line.valid && line.dirty) {
-      const oldBaseAddress = (line.tag << 2) | (lineIndex << 2);
-      for (let i = 0; i < this.config.lineSize; i++) {
-        if (oldBaseAddress + i < memory.length) {
-          memory[oldBaseAddress + i] = line.data[i];
-        }
+  /**
+   * Load a cache line from the next level into a victim way
+   * Returns the way that now holds the line
+   */
+  private loadLine(address: Address, memory: Uint32Array): { way: number; nextLevelHit?: boolean } {
+    const set = this.getSetIndex(address);
+    const tag = this.getTag(address);
+    const baseAddress = address - this.getOffset(address); // Align to line boundary
+
+    const way = this.chooseVictim(set);
+    const line = this.lines[way];
+
+    if (line.valid) {
+      this.evictions++;
+      // Write back if dirty
+      if (line.dirty) {
+        this.writeBack(line, set, memory);
       }
     }
 
     // Load new line
-    for (let i = 0; i < this.config.lineSize; i++) {
-      const addr = baseAddress + i;
-      if (addr < memory.length) {
-        line.data[i] = memory[addr];
-      } else {
-        line.data[i] = 0;
+    let nextLevelHit: boolean | undefined;
+    if (this.nextLevel) {
+      const fill = this.nextLevel.readLine(baseAddress, memory);
+      line.data = fill.data;
+      nextLevelHit = fill.hit;
+    } else {
+      this.memoryTraffic.push({ address: baseAddress, write: false });
+      for (let i = 0; i < this.config.lineSize; i++) {
+        const addr = baseAddress + i;
+        if (addr < memory.length) {
+          line.data[i] = memory[addr];
+        } else {
+          line.data[i] = 0;
+        }
       }
     }
 
     line.tag = tag;
     line.valid = true;
     line.dirty = false;
+    this.filledAt[way] = ++this.clock;
+    this.lastUsed[way] = this.clock;
+    return { way, nextLevelHit };
   }
 
   /**
-   * Get cache line index from address
+   * Pick the way to replace in a set: an invalid way if any, else by policy
    */
-  private getLineIndex(address: Address): number {
-    return (address >> 2) % this.config.cacheSize;
+  private chooseVictim(set: number): number {
+    const first = set * this.associativity;
+    const last = first + this.associativity;
+
+    for (let way = first; way < last; way++) {
+      if (!this.lines[way].valid) {
+        return way;
+      }
+    }
+
+    if (this.replacementPolicy === 'random') {
+      return first + (this.nextRandom() % this.associativity);
+    }
+
+    const stamps = this.replacementPolicy === 'fifo' ? this.filledAt : this.lastUsed;
+    let victim = first;
+    for (let way = first + 1; way < last; way++) {
+      if (stamps[way] < stamps[victim]) {
+        victim = way;
+      }
+    }
+    return victim;
+  }
+
+  /**
+   * Write a dirty line back to memory
+   */
+  private writeBack(line: CacheLine, set: number, memory: Uint32Array): void {
+    this.storeLine(this.getBaseAddress(line.tag, set), line.data, memory);
+    line.dirty = false;
+    this.dirtyWritebacks++;
+  }
+
+  /**
+   * Write one word to the next level
+   * Returns whether the next cache level hit (undefined for global memory)
+   */
+  private storeWord(address: Address, data: Word, memory: Uint32Array, coalesced = false): boolean | undefined {
+    if (this.nextLevel) {
+      return this.nextLevel.write(address, data, memory, coalesced).hit;
+    }
+    this.memoryTraffic.push({ address: address - this.getOffset(address), write: true });
+    if (address < memory.length) {
+      memory[address] = data;
+    }
+    return undefined;
+  }
+
+  /**
+   * Write a whole line to the next level
+   */
+  private storeLine(baseAddress: Address, data: Word[], memory: Uint32Array): void {
+    if (this.nextLevel) {
+      this.nextLevel.writeLine(baseAddress, data, memory);
+      return;
+    }
+    this.memoryTraffic.push({ address: baseAddress, write: true });
+    for (let i = 0; i < this.config.lineSize; i++) {
+      if (baseAddress + i < memory.length) {
+        memory[baseAddress + i] = data[i];
+      }
+    }
+  }
+
+  /**
+   * Mark a way as most recently used
+   */
+  private touch(way: number, address: Address): void {
+    this.lastUsed[way] = ++this.clock;
+    this.touchShadow(this.getLineNumber(address));
+  }
+
+  /**
+   * Classify a miss as compulsory, capacity or conflict
+   */
+  private recordMiss(address: Address): void {
+    this.misses++;
+    const lineNumber = this.getLineNumber(address);
+
+    if (!this.referencedLines.has(lineNumber)) {
+      this.referencedLines.add(lineNumber);
+      this.compulsoryMisses++;
+    } else if (this.shadow.has(lineNumber)) {
+      this.conflictMisses++;
+    } else {
+      this.capacityMisses++;
+    }
+    this.touchShadow(lineNumber);
+  }
+
+  /**
+   * Update the fully-associative LRU shadow cache
+   */
+  private touchShadow(lineNumber: number): void {
+    if (lineNumber === this.shadowMostRecent) {
+      return; // Already most recent (lanes of a warp often touch the same line)
+    }
+    this.shadowMostRecent = lineNumber;
+    this.shadow.delete(lineNumber);
+    this.shadow.set(lineNumber, true);
+    if (this.shadow.size > this.config.cacheSize) {
+      // Maps iterate in insertion order, so the first key is least recent
+      this.shadow.delete(this.shadow.keys().next().value!);
+    }
+  }
+
+  /**
+   * Deterministic xorshift PRNG for random replacement
+   */
+  private nextRandom(): number {
+    let x = this.randomState;
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    this.randomState = x >>> 0;
+    return this.randomState;
+  }
+
+  /**
+   * Get memory line number from address
+   */
+  private getLineNumber(address: Address): number {
+    return Math.floor(address / this.config.lineSize);
+  }
+
+  /**
+   * Get cache set index from address
+   */
+  private getSetIndex(address: Address): number {
+    return this.getLineNumber(address) % this.numSets;
   }
 
   /**
    * Get tag from address
    */
   private getTag(address: Address): Address {
-    return address >> (2 + Math.log2(this.config.cacheSize));
+    return Math.floor(this.getLineNumber(address) / this.numSets);
+  }
+
+  /**
+   * Get the first memory address held by a line
+   */
+  private getBaseAddress(tag: Address, set: number): Address {
+    return (tag * this.numSets + set) * this.config.lineSize;
   }
 
   /**
@@ -135,33 +502,108 @@ export class Cache {
   }
 
   /**
-   * Flush cache (write back all dirty lines)
+   * Flush cache (write back all dirty lines to the next level; flush
+   * that level separately)
    */
-  flush(memory: Word[]): void {
+  flush(memory: Uint32Array): void {
     for (let i = 0; i < this.lines.length; i++) {
       const line = this.lines[i];
       if (line.valid && line.dirty) {
-        const baseAddress = (line.tag << 2) | (i << 2);
-        for (let j = 0; j < this.config.lineSize; j++) {
-          const addr = baseAddress + j;
-          if (addr < memory.length) {
-            memory[addr] = line.data[j];
-          }
-        }
-        line.dirty = false;
+        this.writeBack(line, Math.floor(i / this.associativity), memory);
       }
     }
   }
 
+  /**
+   * Invalidate all lines without writing back (memory was replaced)
+   */
+  invalidate(): void {
+    for (const line of this.lines) {
+      line.valid = false;
+      line.dirty = false;
+    }
+    this.lastUsed.fill(0);
+    this.filledAt.fill(0);
+    this.clock = 0;
+    this.randomState = 1;
+    this.referencedLines.clear();
+    this.shadow.clear();
+    this.shadowMostRecent = -1;
+    this.memoryTraffic.length = 0;
+  }
+
+  /**
+   * Get a copy of all cache lines (set-major order)
+   */
+  getLines(): CacheLine[] {
+    return this.lines.map((line) => ({ ...line, data: [...line.data] }));
+  }
+
+  /**
+   * Copy lines, replacement state and statistics
+   */
+  snapshot(): CacheSnapshot {
+    return {
+      lines: this.getLines(),
+      lastUsed: [...this.lastUsed],
+      filledAt: [...this.filledAt],
+      clock: this.clock,
+      randomState: this.randomState,
+      referencedLines: [...this.referencedLines],
+      shadow: [...this.shadow.keys()],
+      counters: {
+        hits: this.hits,
+        misses: this.misses,
+        evictions: this.evictions,
+        dirtyWritebacks: this.dirtyWritebacks,
+        compulsoryMisses: this.compulsoryMisses,
+        capacityMisses: this.capacityMisses,
+        conflictMisses: this.conflictMisses,
+      },
+    };
+  }
+
+  /**
+   * Replace cache state with a snapshot taken from a cache of the same geometry
+   */
+  restore(snapshot: CacheSnapshot): void {
+    if (snapshot.lines.length !== this.lines.length) {
+      throw new Error(
+        `Cache snapshot has ${snapshot.lines.length} lines, cache has ${this.lines.length}`
+      );
+    }
+    this.lines = snapshot.lines.map((line) => ({ ...line, data: [...line.data] }));
+    this.lastUsed = [...snapshot.lastUsed];
+    this.filledAt = [...snapshot.filledAt];
+    this.clock = snapshot.clock;
+    this.randomState = snapshot.randomState;
+    this.referencedLines = new Set(snapshot.referencedLines);
+    this.shadow = new Map(snapshot.shadow.map((lineNumber) => [lineNumber, true]));
+    this.shadowMostRecent = snapshot.shadow.length > 0 ? snapshot.shadow[snapshot.shadow.length - 1] : -1;
+    this.memoryTraffic.length = 0;
+    this.hits = snapshot.counters.hits;
+    this.misses = snapshot.counters.misses;
+    this.evictions = snapshot.counters.evictions;
+    this.dirtyWritebacks = snapshot.counters.dirtyWritebacks;
+    this.compulsoryMisses = snapshot.counters.compulsoryMisses;
+    this.capacityMisses = snapshot.counters.capacityMisses;
+    this.conflictMisses = snapshot.counters.conflictMisses;
+  }
+
   /**
    * Get cache statistics
    */
-  getStats(): { hits: number; misses: number; hitRate: number } {
+  getStats(): CacheStats {
     const total = this.hits + this.misses;
     return {
       hits: this.hits,
       misses: this.misses,
       hitRate: total > 0 ? this.hits / total : 0,
+      evictions: this.evictions,
+      dirtyWritebacks: this.dirtyWritebacks,
+      compulsoryMisses: this.compulsoryMisses,
+      capacityMisses: this.capacityMisses,
+      conflictMisses: this.conflictMisses,
     };
   }
 
@@ -171,5 +613,10 @@ export class Cache {
   resetStats(): void {
     this.hits = 0;
     this.misses = 0;
+    this.evictions = 0;
+    this.dirtyWritebacks = 0;
+    this.compulsoryMisses = 0;
+    this.capacityMisses = 0;
+    this.conflictMisses = 0;
   }
 }
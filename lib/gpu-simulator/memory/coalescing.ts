@@ -0,0 +1,69 @@
+/**
+ * Access Pattern Analysis
+ * Coalescing of a warp's global accesses into cache-line transactions and
+ * bank conflicts of its shared memory accesses
+ */
+
+import type { Address } from '../types';
+
+export interface CoalescingAnalysis {
+  transactions: number; // Distinct cache lines touched
+  lines: number[]; // Line indices, in first-touch order
+  wordsUsed: number; // Distinct words requested
+  efficiency: number; // wordsUsed / words transferred (transactions * lineSize)
+}
+
+export interface BankConflictAnalysis {
+  wavefronts: number; // Serialized shared memory passes needed (1 = conflict-free)
+  conflicts: number; // Extra passes: wavefronts - 1
+  bankLoads: number[]; // Distinct addresses per bank
+}
+
+/**
+ * Index of the cache line holding an address
+ */
+export function lineOf(address: Address, lineSize: number): number {
+  return Math.floor(address / lineSize);
+}
+
+/**
+ * Group the addresses of one warp memory instruction into cache-line
+ * transactions
+ */
+export function analyzeCoalescing(addresses: readonly Address[], lineSize: number): CoalescingAnalysis {
+  const lines: number[] = [];
+  const seenLines = new Set<number>();
+  const words = new Set<Address>();
+
+  for (const address of addresses) {
+    const line = lineOf(address, lineSize);
+    if (!seenLines.has(line)) {
+      seenLines.add(line);
+      lines.push(line);
+    }
+    words.add(address);
+  }
+
+  return {
+    transactions: lines.length,
+    lines,
+    wordsUsed: words.size,
+    efficiency: lines.length > 0 ? words.size / (lines.length * lineSize) : 1,
+  };
+}
+
+/**
+ * Count bank conflicts of one warp shared memory instruction
+ * Word i lives in bank i % banks. Lanes reading the same word are served
+ * by one broadcast; distinct words in the same bank are serialized.
+ */
+export function analyzeBankConflicts(addresses: readonly Address[], banks: number): BankConflictAnalysis {
+  const perBank: Set<Address>[] = Array.from({ length: banks }, () => new Set());
+  for (const address of addresses) {
+    perBank[address % banks].add(address);
+  }
+
+  const bankLoads = perBank.map((words) => words.size);
+  const wavefronts = addresses.length > 0 ? Math.max(...bankLoads) : 0;
+  return { wavefronts, conflicts: Math.max(0, wavefronts - 1), bankLoads };
+}
@@ -0,0 +1,236 @@
+/**
+ * DRAM Timing Model
+ * Channels of banks behind the caches, each bank with one row buffer
+ *
+ * An access waits for its bank, pays the row-hit, row-miss or row-empty
+ * latency, then transfers one cache line over its channel's data bus,
+ * which moves at most wordsPerCycle words a cycle. Accesses to the same
+ * bank serialize on the row operation; accesses to the same channel share
+ * the bus.
+ */
+
+import type { Address, MemoryConfig, PagePolicy } from '../types';
+
+export interface DRAMStats {
+  accesses: number;
+  writes: number; // Accesses writing a line back (write-through stores, dirty write-backs)
+  rowHits: number; // The open row was accessed
+  rowMisses: number; // Another row was open and had to be closed first
+  rowEmpty: number; // No row was open
+  rowBufferHitRate: number;
+  wordsTransferred: number;
+  bandwidthUsed: number; // Words per cycle over the cycles given to getStats
+  peakBandwidth: number; // Words per cycle of all channels; Infinity when uncapped
+  busUtilization: number; // bandwidthUsed / peakBandwidth; 0 when uncapped
+  averageLatency: number; // Cycles from request to data, queueing included
+}
+
+/**
+ * Plain-data copy of the DRAM state (see DRAM.snapshot)
+ */
+export interface DRAMSnapshot {
+  openRows: number[]; // By bank, -1 when closed
+  bankReady: number[];
+  busFree: number[]; // By channel
+  counters: {
+    accesses: number;
+    writes: number;
+    rowHits: number;
+    rowMisses: number;
+    rowEmpty: number;
+    wordsTransferred: number;
+    totalLatency: number;
+  };
+}
+
+/**
+ * Build the DRAM described by `config.dram`, or null if there is none
+ */
+export function createDRAM(config: MemoryConfig): DRAM | null {
+  return config.dram ? new DRAM(config) : null;
+}
+
+export class DRAM {
+  private readonly channels: number;
+  private readonly banksPerChannel: number;
+  private readonly lineSize: number;
+  private readonly linesPerRow: number;
+  private readonly pagePolicy: PagePolicy;
+  private readonly rowHitLatency: number;
+  private readonly rowMissLatency: number;
+  private readonly rowEmptyLatency: number;
+  private readonly transferCycles: number; // Bus cycles per line; 0 when uncapped
+  private readonly wordsPerCycle: number;
+
+  private openRows: Int32Array; // By bank (channel-major), -1 when closed
+  private bankReady: number[]; // Cycle at which each bank accepts its next access
+  private busFree: number[]; // Cycle at which each channel's data bus is free
+
+  private accesses = 0;
+  private writes = 0;
+  private rowHits = 0;
+  private rowMisses = 0;
+  private rowEmpty = 0;
+  private wordsTransferred = 0;
+  private totalLatency = 0;
+
+  constructor(config: MemoryConfig) {
+    const dram = config.dram;
+    if (!dram) {
+      throw new Error('MemoryConfig has no dram section');
+    }
+    this.channels = dram.channels ?? 1;
+    this.banksPerChannel = dram.banksPerChannel ?? 8;
+    this.lineSize = config.lineSize;
+    const rowSize = dram.rowSize ?? 256;
+    this.pagePolicy = dram.pagePolicy ?? 'open';
+    this.rowHitLatency = dram.rowHitLatency;
+    this.rowMissLatency = dram.rowMissLatency;
+    this.rowEmptyLatency = dram.rowEmptyLatency ?? dram.rowMissLatency;
+    this.wordsPerCycle = dram.wordsPerCycle ?? Infinity;
+
+    for (const [name, value] of [
+      ['channels', this.channels],
+      ['banksPerChannel', this.banksPerChannel],
+      ['rowHitLatency', this.rowHitLatency],
+      ['rowMissLatency', this.rowMissLatency],
+      ['rowEmptyLatency', this.rowEmptyLatency],
+    ] as const) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`dram.${name} must be a positive integer, got ${value}`);
+      }
+    }
+    if (!Number.isInteger(rowSize) || rowSize < this.lineSize || rowSize % this.lineSize !== 0) {
+      throw new Error(`dram.rowSize must be a multiple of the line size (${this.lineSize}), got ${rowSize}`);
+    }
+    if (!(this.wordsPerCycle > 0)) {
+      throw new Error(`dram.wordsPerCycle must be positive, got ${this.wordsPerCycle}`);
+    }
+
+    this.linesPerRow = rowSize / this.lineSize;
+    this.transferCycles = Number.isFinite(this.wordsPerCycle) ? Math.ceil(this.lineSize / this.wordsPerCycle) : 0;
+    const banks = this.channels * this.banksPerChannel;
+    this.openRows = new Int32Array(banks).fill(-1);
+    this.bankReady = new Array(banks).fill(0);
+    this.busFree = new Array(this.channels).fill(0);
+  }
+
+  /**
+   * Access the line holding `address` at `cycle`
+   * Returns the cycle at which its data has been transferred.
+   */
+  access(address: Address, cycle: number, write = false): number {
+    const line = Math.floor(address / this.lineSize);
+    const channel = line % this.channels;
+    const bank = channel * this.banksPerChannel + (Math.floor(line / this.channels) % this.banksPerChannel);
+    const row = Math.floor(line / (this.channels * this.banksPerChannel * this.linesPerRow));
+
+    const start = Math.max(cycle, this.bankReady[bank]);
+    const open = this.openRows[bank];
+    let latency: number;
+    if (open === row) {
+      latency = this.rowHitLatency;
+      this.rowHits++;
+    } else if (open === -1) {
+      latency = this.rowEmptyLatency;
+      this.rowEmpty++;
+    } else {
+      latency = this.rowMissLatency;
+      this.rowMisses++;
+    }
+
+    // The data burst ends the access and occupies the channel's bus for
+    // transferCycles; the bank is free again once its row work is done
+    const done = Math.max(start + latency, this.busFree[channel] + this.transferCycles);
+    this.busFree[channel] = done;
+    this.bankReady[bank] = start + latency - this.rowHitLatency + 1;
+    this.openRows[bank] = this.pagePolicy === 'open' ? row : -1;
+
+    this.accesses++;
+    if (write) {
+      this.writes++;
+    }
+    this.wordsTransferred += this.lineSize;
+    this.totalLatency += done - cycle;
+    return done;
+  }
+
+  /**
+   * Get DRAM statistics; bandwidth is averaged over `cycles`
+   */
+  getStats(cycles: number): DRAMStats {
+    const peakBandwidth = this.channels * this.wordsPerCycle;
+    const bandwidthUsed = cycles > 0 ? this.wordsTransferred / cycles : 0;
+    return {
+      accesses: this.accesses,
+      writes: this.writes,
+      rowHits: this.rowHits,
+      rowMisses: this.rowMisses,
+      rowEmpty: this.rowEmpty,
+      rowBufferHitRate: this.accesses > 0 ? this.rowHits / this.accesses : 0,
+      wordsTransferred: this.wordsTransferred,
+      bandwidthUsed,
+      peakBandwidth,
+      busUtilization: Number.isFinite(peakBandwidth) ? bandwidthUsed / peakBandwidth : 0,
+      averageLatency: this.accesses > 0 ? this.totalLatency / this.accesses : 0,
+    };
+  }
+
+  /**
+   * Copy bank, bus and counter state
+   */
+  snapshot(): DRAMSnapshot {
+    return {
+      openRows: Array.from(this.openRows),
+      bankReady: [...this.bankReady],
+      busFree: [...this.busFree],
+      counters: {
+        accesses: this.accesses,
+        writes: this.writes,
+        rowHits: this.rowHits,
+        rowMisses: this.rowMisses,
+        rowEmpty: this.rowEmpty,
+        wordsTransferred: this.wordsTransferred,
+        totalLatency: this.totalLatency,
+      },
+    };
+  }
+
+  /**
+   * Replace the state with a snapshot from a DRAM of the same geometry
+   */
+  restore(snapshot: DRAMSnapshot): void {
+    if (snapshot.openRows.length !== this.openRows.length || snapshot.busFree.length !== this.channels) {
+      throw new Error(
+        `DRAM snapshot has ${snapshot.openRows.length} banks on ${snapshot.busFree.length} channels, ` +
+          `DRAM has ${this.openRows.length} on ${this.channels}`
+      );
+    }
+    this.openRows.set(snapshot.openRows);
+    this.bankReady = [...snapshot.bankReady];
+    this.busFree = [...snapshot.busFree];
+    this.accesses = snapshot.counters.accesses;
+    this.writes = snapshot.counters.writes;
+    this.rowHits = snapshot.counters.rowHits;
+    this.rowMisses = snapshot.counters.rowMisses;
+    this.rowEmpty = snapshot.counters.rowEmpty;
+    this.wordsTransferred = snapshot.counters.wordsTransferred;
+    this.totalLatency = snapshot.counters.totalLatency;
+  }
+
+  /**
+   * Close every row, free every bank and bus, and clear statistics
+   */
+  reset(): void {
+    this.openRows.fill(-1);
+    this.bankReady.fill(0);
+    this.busFree.fill(0);
+    this.accesses = 0;
+    this.writes = 0;
+    this.rowHits = 0;
+    this.rowMisses = 0;
+    this.rowEmpty = 0;
+    this.wordsTransferred = 0;
+    this.totalLatency = 0;
+  }
+}
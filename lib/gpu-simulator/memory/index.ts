@@ -3,6 +3,25 @@
  * Main interface for GPU memory operations
  */
 
-export { MemoryController } from './memory-controller';
-export { Cache } from './cache';
-export type { Word, Address, MemoryRequest, MemoryResponse, MemoryConfig } from '../types';
+export { MemoryController, type MemoryControllerSnapshot } from './memory-controller';
+export {
+  analyzeCoalescing,
+  analyzeBankConflicts,
+  lineOf,
+  type CoalescingAnalysis,
+  type BankConflictAnalysis,
+} from './coalescing';
+export { Cache, createL2Cache, type CacheStats, type CacheSnapshot, type MemoryTraffic } from './cache';
+export { DRAM, createDRAM, type DRAMStats, type DRAMSnapshot } from './dram';
+export type {
+  Word,
+  Address,
+  MemoryRequest,
+  MemoryResponse,
+  MemoryConfig,
+  L2Config,
+  DRAMConfig,
+  PagePolicy,
+  ReplacementPolicy,
+  WritePolicy,
+} from '../types';
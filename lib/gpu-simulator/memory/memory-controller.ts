@@ -1,20 +1,110 @@
 /**
  * Memory Controller
  * Ported from tiny-gpu Verilog memory controller
- * Handles global memory access and memory coalescing
+ * Handles global memory access, request latency and memory coalescing
+ *
+ * Accesses one warp issues in a cycle are grouped into cache-line-sized
+ * transactions: requests of the same warp, direction and line share one.
+ * With a DRAM model, a transaction that misses every cache level (or runs
+ * uncached) is timed by it instead of the fixed miss latency. Every line
+ * the caches move to or from global memory goes through the DRAM model,
+ * so write-through stores and dirty write-backs take bank and bus time
+ * too; only a request that missed every level waits, and only for the
+ * accesses to its own line.
+ * Only the request that opens a transaction looks its line up in the
+ * cache; requests that join it are reported as coalesced, not as hits.
  */
 
 import type { Word, Address, MemoryRequest, MemoryResponse, MemoryConfig } from '../types';
+import { Cache, type MemoryTraffic } from './cache';
+import type { DRAM } from './dram';
+import { lineOf } from './coalescing';
+
+/**
+ * One memory transaction; coalesced requests share it
+ */
+interface Transaction {
+  readyCycle: number;
+}
+
+/**
+ * A request travelling through the memory system
+ */
+interface InFlightRequest {
+  id: number;
+  request: MemoryRequest;
+  data: Word;
+  issueCycle: number;
+  cacheHit: boolean | null; // null without a cache
+  transaction: Transaction;
+  coalesced: boolean; // Joined a transaction opened by an earlier request
+}
+
+/**
+ * A transaction opened this cycle that later requests can still join
+ */
+interface OpenTransaction {
+  transaction: Transaction;
+  words: Address[]; // Distinct addresses requested through it (at most one line)
+  cacheHit: boolean | null; // Outcome of its cache lookup (null without a cache)
+}
+
+/**
+ * Plain-data copy of the controller's request queue (see MemoryController.snapshot)
+ * Coalesced requests refer to the same entry of `transactions`.
+ */
+export interface MemoryControllerSnapshot {
+  inFlight: {
+    id: number;
+    request: MemoryRequest;
+    data: Word;
+    issueCycle: number;
+    cacheHit: boolean | null;
+    transaction: number;
+    coalesced: boolean;
+  }[];
+  transactions: { readyCycle: number }[];
+  issuedThisCycle: number[]; // Request ids
+  issueCycle: number;
+  nextRequestId: number;
+  totalRequests: number;
+  totalWarpRequests: number;
+  totalTransactions: number;
+  totalWordsUsed: number;
+  totalLatency: number;
+  completedRequests: number;
+}
 
 export class MemoryController {
-  private memory: Word[];
+  private memory: Uint32Array;
   private config: MemoryConfig;
-  private pendingRequests: MemoryRequest[] = [];
-  private responseQueue: Map<number, MemoryResponse> = new Map();
+  private cache: Cache | null;
+  private dram: DRAM | null;
+  private memoryTraffic: MemoryTraffic[] = []; // Reused by request and flushCaches
+  private inFlight: InFlightRequest[] = []; // In issue order, so sorted by id
+  private earliestReady = Infinity; // Lower bound on the readyCycle of in-flight requests
+  private issuedThisCycle: InFlightRequest[] = [];
+  // Transactions opened this cycle, by warp, then by line * 2 + (write ? 1 : 0)
+  private openTransactions: Map<number, Map<number, OpenTransaction>> = new Map();
+  private issueCycle = -1;
+  private nextRequestId = 0;
+  private totalRequests = 0;
+  private totalWarpRequests = 0; // Warp memory instructions
+  private totalTransactions = 0;
+  private totalWordsUsed = 0; // Distinct words requested per transaction, summed
+  private totalLatency = 0;
+  private completedRequests = 0;
 
-  constructor(config: MemoryConfig) {
+  /**
+   * @param memory Backing global memory (shared with the caller); allocated if omitted
+   * @param cache Cache in front of global memory, or null to access memory directly
+   * @param dram Timing model of global memory, or null for the fixed `latency`
+   */
+  constructor(config: MemoryConfig, memory?: Uint32Array, cache: Cache | null = null, dram: DRAM | null = null) {
     this.config = config;
-    this.memory = new Array(config.globalMemorySize).fill(0);
+    this.memory = memory || new Uint32Array(config.globalMemorySize);
+    this.cache = cache;
+    this.dram = dram;
   }
 
   /**
@@ -27,81 +117,243 @@ export class MemoryController {
   }
 
   /**
-   * Request memory access
+   * Issue a memory request at the given cycle
+   * The access is performed through the cache immediately; the response
+   * becomes available after the hit, L2 hit or miss latency has elapsed
+   * (or, with a DRAM model, once the DRAM access completes).
+   * Requests a warp issues in the same cycle to the same cache line (and
+   * in the same direction) share one memory transaction and complete
+   * together.
+   * Returns the request id used to match the response.
+   */
+  request(req: MemoryRequest, cycle: number = 0): number {
+    if (cycle !== this.issueCycle) {
+      this.issueCycle = cycle;
+      this.issuedThisCycle = [];
+      this.openTransactions.clear();
+    }
+
+    // Requests without a warp are never coalesced
+    let warpTransactions: Map<number, OpenTransaction> | undefined;
+    if (req.warpId !== undefined) {
+      warpTransactions = this.openTransactions.get(req.warpId);
+      if (!warpTransactions) {
+        warpTransactions = new Map();
+        this.openTransactions.set(req.warpId, warpTransactions);
+        this.totalWarpRequests++;
+      }
+    } else {
+      this.totalWarpRequests++;
+    }
+
+    const key = this.transactionKey(req);
+    const open = warpTransactions?.get(key);
+
+    let data: Word;
+    let hit = false;
+    let l2Hit = false;
+    const cached = this.cache !== null;
+    if (this.cache) {
+      // A joining request uses the line its transaction looked up
+      const coalesced = open !== undefined;
+      const result = req.write
+        ? { ...this.cache.write(req.address, req.data ?? 0, this.memory, coalesced), data: req.data ?? 0 }
+        : this.cache.read(req.address, this.memory, coalesced);
+      data = result.data;
+      hit = result.hit;
+      l2Hit = result.nextLevelHit === true;
+    } else if (req.write) {
+      this.memory[req.address] = req.data ?? 0;
+      data = req.data ?? 0;
+    } else {
+      data = this.memory[req.address];
+    }
+
+    let readyCycle: number;
+    if (open) {
+      readyCycle = open.transaction.readyCycle;
+    } else if (hit) {
+      readyCycle = cycle + Math.max(1, this.config.cacheHitLatency ?? 1);
+    } else if (l2Hit) {
+      readyCycle = cycle + Math.max(1, this.config.l2?.hitLatency ?? this.config.latency);
+    } else if (this.dram) {
+      readyCycle = cycle + 1;
+    } else {
+      readyCycle = cycle + Math.max(1, this.config.latency);
+    }
+
+    // Lines moved to or from global memory; uncached, the access itself
+    const traffic = this.memoryTraffic;
+    traffic.length = 0;
+    this.cache?.takeMemoryTraffic(traffic);
+    if (this.dram) {
+      if (!cached) {
+        traffic.push({ address: req.address, write: req.write });
+      }
+      const arrival = this.accessDRAM(this.dram, req.address, open !== undefined, cycle);
+      if (!open && !hit && !l2Hit) {
+        readyCycle = Math.max(readyCycle, arrival);
+      }
+    }
+
+    let transaction: Transaction;
+    const cacheHit = open ? open.cacheHit : cached ? hit : null;
+    if (open) {
+      transaction = open.transaction;
+      if (!open.words.includes(req.address)) {
+        open.words.push(req.address);
+        this.totalWordsUsed++;
+      }
+    } else {
+      transaction = { readyCycle };
+      warpTransactions?.set(key, { transaction, words: [req.address], cacheHit });
+      this.totalTransactions++;
+      this.totalWordsUsed++;
+    }
+
+    const entry: InFlightRequest = {
+      id: this.nextRequestId++,
+      request: req,
+      data,
+      issueCycle: cycle,
+      cacheHit,
+      transaction,
+      coalesced: open !== undefined,
+    };
+    this.inFlight.push(entry);
+    this.earliestReady = Math.min(this.earliestReady, readyCycle);
+    this.issuedThisCycle.push(entry);
+    this.totalRequests++;
+
+    return entry.id;
+  }
+
+  /**
+   * Time the lines an access moved to or from global memory on the DRAM
+   * model; accesses to other lines (write-backs of evicted lines) are
+   * posted. A transaction moves its line once, so a request that joined
+   * one does not access its line again.
+   * Returns the cycle at which the last access to the request's own line
+   * completed, or 0 if there was none.
+   */
+  private accessDRAM(dram: DRAM, address: Address, joined: boolean, cycle: number): number {
+    const line = lineOf(address, this.config.lineSize);
+    let arrival = 0;
+    for (const access of this.memoryTraffic) {
+      const own = lineOf(access.address, this.config.lineSize) === line;
+      if (own && joined) continue;
+      const done = dram.access(access.address, cycle, access.write);
+      if (own) {
+        arrival = Math.max(arrival, done);
+      }
+    }
+    return arrival;
+  }
+
+  /**
+   * Write dirty lines of the cache, then of the L2 below it, back to
+   * global memory at `cycle`; with a DRAM model the write-backs occupy its
+   * banks and buses
    */
-  request(req: MemoryRequest): void {
-    this.pendingRequests.push(req);
+  flushCaches(cycle: number, l2: Cache | null = null): void {
+    const traffic = this.memoryTraffic;
+    traffic.length = 0;
+    for (const cache of [this.cache, l2]) {
+      cache?.flush(this.memory);
+      cache?.takeMemoryTraffic(traffic);
+    }
+    for (const { address, write } of traffic) {
+      this.dram?.access(address, cycle, write);
+    }
   }
 
   /**
-   * Process memory requests with coalescing
-   * Coalesces adjacent memory requests from different threads
+   * Complete all requests whose latency has elapsed by the given cycle
+   * Returns the responses in issue order
    */
-  processRequests(): void {
-    // Sort requests by address for coalescing
-    this.pendingRequests.sort((a, b) => a.address - b.address);
+  processRequests(cycle: number = Number.MAX_SAFE_INTEGER): MemoryResponse[] {
+    if (cycle < this.earliestReady) {
+      return [];
+    }
 
-    // Coalesce adjacent requests
-    const coalesced: MemoryRequest[] = [];
-    let current: MemoryRequest | null = null;
+    const completed: MemoryResponse[] = [];
+    let earliestReady = Infinity;
+    let kept = 0;
 
-    for (const req of this.pendingRequests) {
-      if (current && this.canCoalesce(current, req)) {
-        // Coalesce with current request
-        if (req.write && req.data !== undefined) {
-          this.memory[req.address] = req.data;
-        }
-        this.responseQueue.set(this.getRequestId(req), {
-          data: req.write ? req.data! : this.memory[req.address],
+    // Compact the queue in place, keeping issue order
+    for (let i = 0; i < this.inFlight.length; i++) {
+      const entry = this.inFlight[i];
+      const { readyCycle } = entry.transaction;
+      if (readyCycle <= cycle) {
+        completed.push({
+          data: entry.data,
           valid: true,
+          requestId: entry.id,
         });
+        this.totalLatency += readyCycle - entry.issueCycle;
+        this.completedRequests++;
       } else {
-        if (current) {
-          coalesced.push(current);
-        }
-        current = req;
+        this.inFlight[kept++] = entry;
+        earliestReady = Math.min(earliestReady, readyCycle);
       }
     }
 
-    if (current) {
-      coalesced.push(current);
-    }
+    this.inFlight.length = kept;
+    this.earliestReady = earliestReady;
+    return completed;
+  }
+
+  /**
+   * Look up an in-flight request: whether it hit the cache and when it completes
+   */
+  getInFlightRequest(
+    requestId: number
+  ): { issueCycle: number; readyCycle: number; cacheHit: boolean | null; coalesced: boolean } | undefined {
+    const entry = this.findInFlight(requestId);
+    return entry
+      ? {
+          issueCycle: entry.issueCycle,
+          readyCycle: entry.transaction.readyCycle,
+          cacheHit: entry.cacheHit,
+          coalesced: entry.coalesced,
+        }
+      : undefined;
+  }
 
-    // Process coalesced requests
-    for (const req of coalesced) {
-      if (req.write && req.data !== undefined) {
-        this.memory[req.address] = req.data;
+  /**
+   * Binary search the in-flight queue for a request
+   */
+  private findInFlight(requestId: number): InFlightRequest | undefined {
+    let low = 0;
+    let high = this.inFlight.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const entry = this.inFlight[mid];
+      if (entry.id === requestId) {
+        return entry;
+      }
+      if (entry.id < requestId) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
       }
-      this.responseQueue.set(this.getRequestId(req), {
-        data: req.write ? req.data! : this.memory[req.address],
-        valid: true,
-      });
     }
-
-    this.pendingRequests = [];
+    return undefined;
   }
 
   /**
-   * Check if two requests can be coalesced
+   * Check whether any request is still in flight
    */
-  private canCoalesce(a: MemoryRequest, b: MemoryRequest): boolean {
-    // Coalesce if addresses are adjacent and both are reads or both are writes
-    return (
-      Math.abs(a.address - b.address) <= 4 && // Adjacent words (cache line size)
-      a.write === b.write
-    );
+  hasPendingRequests(): boolean {
+    return this.inFlight.length > 0;
   }
 
   /**
-   * Get response for a request
+   * Key of the transaction a request can share with other requests of
+   * the same warp and cycle: same direction, same cache line
    */
-  getResponse(requestId: number): MemoryResponse | null {
-    const response = this.responseQueue.get(requestId);
-    if (response) {
-      this.responseQueue.delete(requestId);
-      return response;
-    }
-    return null;
+  private transactionKey(req: MemoryRequest): number {
+    return lineOf(req.address, this.config.lineSize) * 2 + (req.write ? 1 : 0);
   }
 
   /**
@@ -127,13 +379,130 @@ export class MemoryController {
    * Get memory snapshot
    */
   getMemory(): Word[] {
-    return [...this.memory];
+    return Array.from(this.memory);
+  }
+
+  /**
+   * Get memory request statistics
+   */
+  getStats(): {
+    requests: number; // Thread-level accesses
+    warpRequests: number; // Warp memory instructions
+    transactions: number;
+    transactionsPerRequest: number; // Per warp request; 1 is fully coalesced
+    coalescedRequests: number; // Joined an earlier transaction instead of looking up the cache
+    coalescingEfficiency: number; // Words requested / words transferred in line-sized transactions
+    inFlight: number;
+    averageLatency: number;
+  } {
+    return {
+      requests: this.totalRequests,
+      warpRequests: this.totalWarpRequests,
+      transactions: this.totalTransactions,
+      transactionsPerRequest:
+        this.totalWarpRequests > 0 ? this.totalTransactions / this.totalWarpRequests : 0,
+      coalescedRequests: this.totalRequests - this.totalTransactions,
+      coalescingEfficiency:
+        this.totalTransactions > 0 ? this.totalWordsUsed / (this.totalTransactions * this.config.lineSize) : 0,
+      inFlight: this.inFlight.length,
+      averageLatency: this.completedRequests > 0 ? this.totalLatency / this.completedRequests : 0,
+    };
+  }
+
+  /**
+   * Copy in-flight requests and statistics (global memory itself is not included)
+   */
+  snapshot(): MemoryControllerSnapshot {
+    const transactions: Transaction[] = [];
+    const transactionIndex = new Map<Transaction, number>();
+    const indexOf = (transaction: Transaction) => {
+      if (!transactionIndex.has(transaction)) {
+        transactionIndex.set(transaction, transactions.length);
+        transactions.push({ ...transaction });
+      }
+      return transactionIndex.get(transaction)!;
+    };
+
+    return {
+      inFlight: this.inFlight.map((entry) => ({
+        id: entry.id,
+        request: { ...entry.request },
+        data: entry.data,
+        issueCycle: entry.issueCycle,
+        cacheHit: entry.cacheHit,
+        transaction: indexOf(entry.transaction),
+        coalesced: entry.coalesced,
+      })),
+      transactions,
+      issuedThisCycle: this.issuedThisCycle.map((entry) => entry.id),
+      issueCycle: this.issueCycle,
+      nextRequestId: this.nextRequestId,
+      totalRequests: this.totalRequests,
+      totalWarpRequests: this.totalWarpRequests,
+      totalTransactions: this.totalTransactions,
+      totalWordsUsed: this.totalWordsUsed,
+      totalLatency: this.totalLatency,
+      completedRequests: this.completedRequests,
+    };
+  }
+
+  /**
+   * Replace in-flight requests and statistics with a snapshot
+   */
+  restore(snapshot: MemoryControllerSnapshot): void {
+    const transactions = snapshot.transactions.map((transaction) => ({ ...transaction }));
+    this.inFlight = snapshot.inFlight.map((entry) => ({
+      id: entry.id,
+      request: { ...entry.request },
+      data: entry.data,
+      issueCycle: entry.issueCycle,
+      cacheHit: entry.cacheHit,
+      transaction: transactions[entry.transaction],
+      coalesced: entry.coalesced,
+    }));
+    const byId = new Map(this.inFlight.map((entry) => [entry.id, entry]));
+    this.earliestReady = this.inFlight.reduce((earliest, entry) => Math.min(earliest, entry.transaction.readyCycle), Infinity);
+    // Requests issued this cycle may already have completed and left the queue
+    this.issuedThisCycle = snapshot.issuedThisCycle.flatMap((id) => byId.get(id) ?? []);
+    this.openTransactions.clear();
+    for (const entry of this.issuedThisCycle) {
+      const { warpId, address } = entry.request;
+      if (warpId === undefined) continue;
+      const warpTransactions = this.openTransactions.get(warpId) ?? new Map<number, OpenTransaction>();
+      const key = this.transactionKey(entry.request);
+      // The first request of a transaction opened it
+      const open = warpTransactions.get(key) ?? { transaction: entry.transaction, words: [], cacheHit: entry.cacheHit };
+      if (!open.words.includes(address)) {
+        open.words.push(address);
+      }
+      warpTransactions.set(key, open);
+      this.openTransactions.set(warpId, warpTransactions);
+    }
+    this.issueCycle = snapshot.issueCycle;
+    this.nextRequestId = snapshot.nextRequestId;
+    this.totalRequests = snapshot.totalRequests;
+    this.totalWarpRequests = snapshot.totalWarpRequests;
+    this.totalTransactions = snapshot.totalTransactions;
+    this.totalWordsUsed = snapshot.totalWordsUsed;
+    this.totalLatency = snapshot.totalLatency;
+    this.completedRequests = snapshot.completedRequests;
   }
 
   /**
-   * Generate unique request ID
+   * Drop in-flight requests and reset statistics
    */
-  private getRequestId(req: MemoryRequest): number {
-    return req.threadId * 1000000 + req.blockId * 10000 + req.address;
+  reset(): void {
+    this.inFlight = [];
+    this.earliestReady = Infinity;
+    this.issuedThisCycle = [];
+    this.openTransactions.clear();
+    this.issueCycle = -1;
+    this.nextRequestId = 0;
+    this.totalRequests = 0;
+    this.totalWarpRequests = 0;
+    this.totalTransactions = 0;
+    this.totalWordsUsed = 0;
+    this.totalLatency = 0;
+    this.completedRequests = 0;
   }
 }
@@ -0,0 +1,15 @@
+/**
+ * Profiling Tools
+ */
+
+export {
+  Profiler,
+  type StallReason,
+  type PCProfile,
+  type OpcodeProfile,
+  type OccupancySample,
+  type ProfileReport,
+  type ChromeTraceEvent,
+  type ChromeTrace,
+  type ProfilerOptions,
+} from './profiler';
@@ -0,0 +1,425 @@
+/**
+ * Simulator Profiler
+ * Per-instruction counters, stall attribution and warp occupancy,
+ * exportable as a Chrome Trace Event file
+ */
+
+import type { Address } from '../types';
+import type { Warp } from '../core/thread-scheduler';
+import type { ExecutionEngine, ExecutionObserver } from '../execution/execution-engine';
+
+/**
+ * Why a live warp did not make full progress in a cycle
+ * - memory: waiting on an outstanding load or store
+ * - barrier: every runnable lane is parked at SYNC
+ * - divergence: issued, but on one of several serialized SIMT paths
+ * - notSelected: ready, but the scheduler did not pick it
+ */
+export type StallReason = 'memory' | 'barrier' | 'divergence' | 'notSelected';
+
+/**
+ * Counters for one instruction address
+ */
+export interface PCProfile {
+  pc: Address;
+  opcode: string;
+  warpIssues: number; // Times a warp issued this instruction
+  threadExecutions: number; // Lanes that executed it, summed over issues
+  memoryRequests: number;
+  memoryTransactions: number; // Cache-line transactions after coalescing
+  cacheHits: number; // Per transaction; coalesced requests share its lookup
+  cacheMisses: number;
+  averageMemoryLatency: number; // Cycles from issue to response
+  bankConflicts: number; // Extra shared memory passes (LDS/STS)
+}
+
+export interface OpcodeProfile {
+  warpIssues: number;
+  threadExecutions: number;
+}
+
+/**
+ * Warp occupancy at the start of a cycle
+ */
+export interface OccupancySample {
+  cycle: number;
+  liveWarps: number; // Warps with threads that have not returned
+  readyWarps: number; // Warps the scheduler could issue
+  activeThreads: number;
+}
+
+export interface ProfileReport {
+  cycles: number;
+  warpInstructions: number;
+  threadInstructions: number;
+  byPC: PCProfile[]; // Ordered by PC
+  byOpcode: Record<string, OpcodeProfile>;
+  stallCycles: Record<StallReason, number>; // Warp-cycles per reason
+  idleCycles: number; // Cycles in which no warp issued
+  occupancy: OccupancySample[];
+  averageLiveWarps: number;
+}
+
+/**
+ * One event of the Chrome Trace Event format (chrome://tracing, Perfetto)
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  ph: 'X' | 'C' | 'M';
+  ts: number; // Microseconds; one cycle is exported as 1µs
+  dur?: number;
+  pid: number;
+  tid?: number;
+  cat?: string;
+  args?: Record<string, unknown>;
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ns' | 'ms';
+  otherData?: Record<string, unknown>;
+}
+
+export interface ProfilerOptions {
+  recordTimeline?: boolean; // Keep per-cycle warp activity for trace export (default true)
+}
+
+/**
+ * What a warp did in one cycle
+ */
+type WarpActivity = { kind: 'issue'; pc: Address; opcode: string; lanes: number } | { kind: StallReason };
+
+interface MutablePCProfile {
+  opcode: string;
+  warpIssues: number;
+  threadExecutions: number;
+  memoryRequests: number;
+  memoryTransactions: number;
+  cacheHits: number;
+  cacheMisses: number;
+  memoryLatency: number;
+  bankConflicts: number;
+}
+
+export class Profiler {
+  private engine: ExecutionEngine;
+  private observer: ExecutionObserver;
+  private readonly recordTimeline: boolean;
+
+  private cycles = 0;
+  private threadInstructions = 0;
+  private warpInstructions = 0;
+  private byPC: Map<Address, MutablePCProfile> = new Map();
+  private byOpcode: Map<string, OpcodeProfile> = new Map();
+  private stallCycles: Record<StallReason, number> = { memory: 0, barrier: 0, divergence: 0, notSelected: 0 };
+  private idleCycles = 0;
+  private occupancy: OccupancySample[] = [];
+  private timeline: { cycle: number; warps: (WarpActivity | null)[] }[] = [];
+  private warpBlocks: number[] = []; // Block of each warp, for trace labels
+
+  // State of the cycle in progress
+  private cycleStart: { sample: OccupancySample; activity: (WarpActivity | null)[] } | null = null;
+  private issuedWarp: number | null = null;
+
+  constructor(engine: ExecutionEngine, options: ProfilerOptions = {}) {
+    this.engine = engine;
+    this.recordTimeline = options.recordTimeline ?? true;
+
+    this.observer = {
+      onCycleStart: (cycle) => this.beginCycle(cycle),
+      onInstruction: (event) => {
+        const activity = this.cycleStart?.activity;
+        if (activity && this.issuedWarp === null) {
+          this.issuedWarp = event.warpId;
+          const warp = this.engine.getWarps()[event.warpId];
+          activity[event.warpId] = {
+            kind: 'issue',
+            pc: event.pc,
+            opcode: event.instruction.opcode,
+            lanes: 0,
+          };
+          // Still on the pre-branch stack: more than one entry means a serialized path
+          if (warp && warp.stack.length > 1) {
+            this.stallCycles.divergence++;
+          }
+          this.warpInstructions++;
+          this.pcProfile(event.pc, event.instruction.opcode).warpIssues++;
+          this.opcodeProfile(event.instruction.opcode).warpIssues++;
+        }
+        const issued = activity?.[event.warpId];
+        if (issued && issued.kind === 'issue') {
+          issued.lanes++;
+        }
+        this.threadInstructions++;
+        this.pcProfile(event.pc, event.instruction.opcode).threadExecutions++;
+        this.opcodeProfile(event.instruction.opcode).threadExecutions++;
+      },
+      onMemoryAccess: (event) => {
+        const profile = this.byPC.get(event.pc);
+        if (!profile) return;
+        profile.memoryRequests++;
+        profile.memoryLatency += event.readyCycle - event.cycle;
+        if (event.coalesced) return;
+        profile.memoryTransactions++;
+        if (event.cacheHit === true) profile.cacheHits++;
+        if (event.cacheHit === false) profile.cacheMisses++;
+      },
+      onSharedMemoryAccess: (event) => {
+        const profile = this.byPC.get(event.pc);
+        if (profile) profile.bankConflicts += event.bankConflicts;
+      },
+      onCycleEnd: (cycle) => this.endCycle(cycle),
+    };
+    this.engine.addObserver(this.observer);
+  }
+
+  /**
+   * Stop observing the engine
+   */
+  detach(): void {
+    this.engine.removeObserver(this.observer);
+  }
+
+  /**
+   * Clear all counters (done automatically when a new launch starts at cycle 0)
+   */
+  reset(): void {
+    this.cycles = 0;
+    this.threadInstructions = 0;
+    this.warpInstructions = 0;
+    this.byPC.clear();
+    this.byOpcode.clear();
+    this.stallCycles = { memory: 0, barrier: 0, divergence: 0, notSelected: 0 };
+    this.idleCycles = 0;
+    this.occupancy = [];
+    this.timeline = [];
+    this.warpBlocks = [];
+    this.cycleStart = null;
+    this.issuedWarp = null;
+  }
+
+  /**
+   * Classify every warp before the scheduler picks one
+   */
+  private beginCycle(cycle: number): void {
+    if (cycle === 0) {
+      this.reset();
+    }
+    const warps = this.engine.getWarps();
+    if (this.warpBlocks.length !== warps.length) {
+      this.warpBlocks = warps.map((warp) => warp.threads[0]?.blockId ?? 0);
+    }
+
+    let liveWarps = 0;
+    let readyWarps = 0;
+    let activeThreads = 0;
+    const activity = warps.map((warp): WarpActivity | null => {
+      const running = warp.threads.filter((t) => t.active);
+      activeThreads += running.length;
+      if (running.length === 0 && warp.pendingRequests === 0) {
+        return null;
+      }
+      liveWarps++;
+      if (warp.pendingRequests > 0) {
+        return { kind: 'memory' };
+      }
+      if (this.isAtBarrier(warp)) {
+        return { kind: 'barrier' };
+      }
+      readyWarps++;
+      return { kind: 'notSelected' };
+    });
+
+    this.cycleStart = { sample: { cycle, liveWarps, readyWarps, activeThreads }, activity };
+    this.issuedWarp = null;
+  }
+
+  /**
+   * Commit the cycle's counters
+   */
+  private endCycle(cycle: number): void {
+    if (!this.cycleStart) return;
+    const { sample, activity } = this.cycleStart;
+
+    for (const entry of activity) {
+      if (entry && entry.kind !== 'issue') {
+        this.stallCycles[entry.kind]++;
+      }
+    }
+    if (this.issuedWarp === null) {
+      this.idleCycles++;
+    }
+    this.occupancy.push(sample);
+    if (this.recordTimeline) {
+      this.timeline.push({ cycle, warps: activity });
+    }
+    this.cycles = cycle + 1;
+    this.cycleStart = null;
+    this.issuedWarp = null;
+  }
+
+  /**
+   * Check whether every runnable lane of a warp's current path waits at a barrier
+   */
+  private isAtBarrier(warp: Warp): boolean {
+    const lanes = warp.threads.filter((t, lane) => (warp.activeMask & (1 << lane)) !== 0 && t.active);
+    return lanes.length > 0 && lanes.every((t) => t.waitingAtBarrier);
+  }
+
+  private pcProfile(pc: Address, opcode: string): MutablePCProfile {
+    let profile = this.byPC.get(pc);
+    if (!profile) {
+      profile = {
+        opcode,
+        warpIssues: 0,
+        threadExecutions: 0,
+        memoryRequests: 0,
+        memoryTransactions: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        memoryLatency: 0,
+        bankConflicts: 0,
+      };
+      this.byPC.set(pc, profile);
+    }
+    return profile;
+  }
+
+  private opcodeProfile(opcode: string): OpcodeProfile {
+    let profile = this.byOpcode.get(opcode);
+    if (!profile) {
+      profile = { warpIssues: 0, threadExecutions: 0 };
+      this.byOpcode.set(opcode, profile);
+    }
+    return profile;
+  }
+
+  /**
+   * Get the collected profile
+   */
+  getReport(): ProfileReport {
+    const byPC = [...this.byPC.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([pc, p]) => ({
+        pc,
+        opcode: p.opcode,
+        warpIssues: p.warpIssues,
+        threadExecutions: p.threadExecutions,
+        memoryRequests: p.memoryRequests,
+        memoryTransactions: p.memoryTransactions,
+        cacheHits: p.cacheHits,
+        cacheMisses: p.cacheMisses,
+        averageMemoryLatency: p.memoryRequests > 0 ? p.memoryLatency / p.memoryRequests : 0,
+        bankConflicts: p.bankConflicts,
+      }));
+
+    return {
+      cycles: this.cycles,
+      warpInstructions: this.warpInstructions,
+      threadInstructions: this.threadInstructions,
+      byPC,
+      byOpcode: Object.fromEntries(
+        [...this.byOpcode].map(([opcode, p]) => [opcode, { ...p }])
+      ),
+      stallCycles: { ...this.stallCycles },
+      idleCycles: this.idleCycles,
+      occupancy: [...this.occupancy],
+      averageLiveWarps:
+        this.occupancy.length > 0
+          ? this.occupancy.reduce((sum, s) => sum + s.liveWarps, 0) / this.occupancy.length
+          : 0,
+    };
+  }
+
+  /**
+   * Build a Chrome Trace Event document: one track per warp with its
+   * instructions and stalls (consecutive stalls of one kind are merged),
+   * plus occupancy counters
+   */
+  toChromeTrace(): ChromeTrace {
+    const pid = 0;
+    const events: ChromeTraceEvent[] = [
+      { name: 'process_name', ph: 'M', ts: 0, pid, args: { name: 'GPU simulator' } },
+    ];
+    this.warpBlocks.forEach((blockId, warpId) => {
+      events.push({
+        name: 'thread_name',
+        ph: 'M',
+        ts: 0,
+        pid,
+        tid: warpId,
+        args: { name: `Warp ${warpId} (block ${blockId})` },
+      });
+    });
+
+    // Open stall span per warp: [reason, start cycle]
+    const openStalls = new Map<number, { reason: StallReason; start: number }>();
+    const closeStall = (warpId: number, end: number) => {
+      const open = openStalls.get(warpId);
+      if (open) {
+        events.push({
+          name: `stall: ${open.reason}`,
+          cat: 'stall',
+          ph: 'X',
+          ts: open.start,
+          dur: end - open.start,
+          pid,
+          tid: warpId,
+        });
+        openStalls.delete(warpId);
+      }
+    };
+
+    for (const { cycle, warps } of this.timeline) {
+      warps.forEach((activity, warpId) => {
+        if (!activity || activity.kind === 'issue') {
+          closeStall(warpId, cycle);
+          if (activity) {
+            events.push({
+              name: activity.opcode,
+              cat: 'instruction',
+              ph: 'X',
+              ts: cycle,
+              dur: 1,
+              pid,
+              tid: warpId,
+              args: { pc: activity.pc, lanes: activity.lanes },
+            });
+          }
+          return;
+        }
+        const open = openStalls.get(warpId);
+        if (!open || open.reason !== activity.kind) {
+          closeStall(warpId, cycle);
+          openStalls.set(warpId, { reason: activity.kind, start: cycle });
+        }
+      });
+    }
+    for (const warpId of [...openStalls.keys()]) {
+      closeStall(warpId, this.cycles);
+    }
+
+    for (const sample of this.occupancy) {
+      events.push({
+        name: 'occupancy',
+        ph: 'C',
+        ts: sample.cycle,
+        pid,
+        args: { liveWarps: sample.liveWarps, readyWarps: sample.readyWarps },
+      });
+    }
+
+    return {
+      traceEvents: events,
+      displayTimeUnit: 'ns',
+      otherData: { cycles: this.cycles, timeUnit: '1 cycle = 1us' },
+    };
+  }
+
+  /**
+   * Serialize the trace as JSON for chrome://tracing or Perfetto
+   */
+  exportChromeTrace(): string {
+    return JSON.stringify(this.toChromeTrace());
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Memory Expectations
+ * Expected values at selected addresses after a run, in a small text
+ * format: each line is `address: value [value ...]`, the values filling
+ * consecutive addresses. Numbers are decimal or 0x/0b prefixed, and
+ * values may be negative (stored as two's complement); #, // and ;
+ * start comments.
+ *
+ *   # C = A + B
+ *   16: 0 2 4 6 8 10 12 14
+ */
+
+import type { Word, Address } from '../types';
+
+export interface MemoryExpectation {
+  address: Address;
+  value: Word;
+}
+
+export interface ExpectationMismatch {
+  address: Address;
+  expected: Word;
+  actual: Word | undefined; // Undefined past the end of memory
+}
+
+export interface ExpectationCheckOptions {
+  wordBits?: number; // Compare only the low bits, e.g. 8 for tiny-gpu data memory (default 32)
+}
+
+/**
+ * Parse expectations; an address listed twice must expect the same value
+ */
+export function parseExpectations(text: string): MemoryExpectation[] {
+  const byAddress = new Map<Address, Word>();
+
+  text.split('\n').forEach((raw, index) => {
+    const line = raw.replace(/(#|\/\/|;).*$/, '').trim();
+    if (line === '') return;
+
+    const match = /^(\S+)\s*:(.*)$/.exec(line);
+    const values = match ? match[2].split(/[\s,]+/).filter(Boolean) : [];
+    if (!match || values.length === 0) {
+      throw new Error(`Line ${index + 1}: expected "address: value [value ...]", got "${line}"`);
+    }
+
+    const base = parseNumber(match[1], index);
+    values.forEach((token, offset) => {
+      const address = base + offset;
+      const value = parseNumber(token, index, true);
+      const previous = byAddress.get(address);
+      if (previous !== undefined && previous !== value) {
+        throw new Error(`Line ${index + 1}: address ${address} already expects ${previous}`);
+      }
+      byAddress.set(address, value);
+    });
+  });
+
+  return Array.from(byAddress, ([address, value]) => ({ address, value })).sort((a, b) => a.address - b.address);
+}
+
+/**
+ * Format expectations, one line per run of consecutive addresses
+ */
+export function formatExpectations(expectations: MemoryExpectation[]): string {
+  const sorted = [...expectations].sort((a, b) => a.address - b.address);
+  const lines: string[] = [];
+  let run: MemoryExpectation[] = [];
+
+  const flush = () => {
+    if (run.length > 0) {
+      lines.push(`${run[0].address}: ${run.map((e) => e.value | 0).join(' ')}`);
+    }
+  };
+  for (const expectation of sorted) {
+    const last = run[run.length - 1];
+    if (last && expectation.address !== last.address + 1) {
+      flush();
+      run = [];
+    }
+    run.push(expectation);
+  }
+  flush();
+
+  return lines.join('\n');
+}
+
+/**
+ * Compare memory against expectations; empty if every address matches
+ */
+export function checkExpectations(
+  memory: ArrayLike<number>,
+  expectations: MemoryExpectation[],
+  options: ExpectationCheckOptions = {}
+): ExpectationMismatch[] {
+  const wordBits = options.wordBits ?? 32;
+  const mask = wordBits >= 32 ? 0xffffffff : 2 ** wordBits - 1;
+  const low = (value: number) => (value >>> 0) % (mask + 1);
+
+  const mismatches: ExpectationMismatch[] = [];
+  for (const { address, value } of expectations) {
+    const actual = address < memory.length ? memory[address] >>> 0 : undefined;
+    if (actual === undefined || low(actual) !== low(value)) {
+      mismatches.push({ address, expected: value >>> 0, actual });
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Parse a decimal or 0x/0b prefixed number; a signed value may be a
+ * negative int32
+ */
+function parseNumber(token: string, lineIndex: number, signed = false): number {
+  const pattern = signed ? /^-?\d+$/ : /^\d+$/;
+  const value = /^0[xb]/i.test(token) ? Number(token.toLowerCase()) : pattern.test(token) ? Number(token) : NaN;
+  if (!Number.isInteger(value) || value < (signed ? -0x80000000 : 0) || value > 0xffffffff) {
+    throw new Error(`Line ${lineIndex + 1}: invalid number "${token}"`);
+  }
+  return value >>> 0;
+}
@@ -0,0 +1,34 @@
+/**
+ * tiny-gpu Test Bench
+ */
+
+export {
+  parseMemoryImage,
+  formatMemoryImage,
+  type MemoryImageFormat,
+  type MemoryImageOptions,
+  type MemoryImageDumpOptions,
+} from './memory-image';
+export {
+  fromTinyGpuProgram,
+  toTinyGpuProgram,
+  TINY_GPU_PROGRAM_WORDS,
+  TINY_GPU_DATA_BITS,
+} from './tiny-gpu-encoding';
+export {
+  parseExpectations,
+  formatExpectations,
+  checkExpectations,
+  type MemoryExpectation,
+  type ExpectationMismatch,
+  type ExpectationCheckOptions,
+} from './expectations';
+export {
+  runTestBench,
+  TINY_GPU_THREADS_PER_BLOCK,
+  TINY_GPU_MATADD_TEST,
+  TINY_GPU_MATMUL_TEST,
+  TINY_GPU_TESTS,
+  type TestBenchCase,
+  type TestBenchResult,
+} from './test-bench';
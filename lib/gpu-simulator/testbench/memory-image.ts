@@ -0,0 +1,134 @@
+/**
+ * Memory Images
+ * Text images of program and data memory as used by tiny-gpu's cocotb
+ * tests: one word per token in binary (0b0101000011011110), hex
+ * ($readmemh style, with @address directives) or decimal
+ *
+ * Comments (#, //, ;), commas, brackets and a leading `name =` are
+ * ignored, so a Python list pasted from a cocotb test parses as is.
+ * Tokens with a 0x prefix are read as hex, and outside hex images tokens
+ * with a 0b prefix as binary (in a hex image 0b01 is the word 0xb01).
+ */
+
+import type { Word } from '../types';
+
+export type MemoryImageFormat = 'bin' | 'hex' | 'dec';
+
+export interface MemoryImageOptions {
+  format?: MemoryImageFormat; // Radix of unprefixed tokens (default 'bin')
+  wordBits?: number; // Word width, 1-32; wider values are rejected (default 32)
+}
+
+export interface MemoryImageDumpOptions extends MemoryImageOptions {
+  wordsPerLine?: number; // Default 1
+  comments?: string[]; // Per-word comments, written after the word (wordsPerLine 1 only)
+}
+
+const RADIX: Record<MemoryImageFormat, number> = { bin: 2, hex: 16, dec: 10 };
+const DIGITS: Record<number, RegExp> = { 2: /^[01]+$/, 16: /^[0-9a-f]+$/i, 10: /^[0-9]+$/ };
+
+/**
+ * Parse a memory image into words; gaps left by @address directives
+ * are zero
+ */
+export function parseMemoryImage(text: string, options: MemoryImageOptions = {}): Word[] {
+  const radix = RADIX[options.format ?? 'bin'];
+  const wordBits = checkWordBits(options.wordBits);
+  const words: Word[] = [];
+  let address = 0;
+
+  text.split('\n').forEach((raw, index) => {
+    const line = raw
+      .replace(/(#|\/\/|;).*$/, '')
+      .replace(/^\s*[A-Za-z_]\w*\s*=/, '')
+      .replace(/[[\](),]/g, ' ');
+
+    for (const token of line.split(/\s+/).filter(Boolean)) {
+      if (token.startsWith('@')) {
+        address = parseToken(token.slice(1), 16, index);
+        continue;
+      }
+      const value = parseToken(token.replace(/_/g, ''), radix, index);
+      if (wordBits < 32 && value >= 2 ** wordBits) {
+        throw new Error(`Line ${index + 1}: ${token} does not fit in ${wordBits} bits`);
+      }
+      while (words.length < address) {
+        words.push(0);
+      }
+      words[address++] = value;
+    }
+  });
+
+  return words;
+}
+
+/**
+ * Format words as a memory image, zero-padded to the word width
+ */
+export function formatMemoryImage(words: ArrayLike<number>, options: MemoryImageDumpOptions = {}): string {
+  const format = options.format ?? 'bin';
+  const wordBits = checkWordBits(options.wordBits);
+  const wordsPerLine = options.wordsPerLine ?? 1;
+  const mask = wordBits === 32 ? 0xffffffff : 2 ** wordBits - 1;
+
+  const tokens = Array.from(words, (word, address) => {
+    if (word >>> 0 > mask) {
+      throw new Error(`Word ${address} (${word >>> 0}) does not fit in ${wordBits} bits`);
+    }
+    const value = word >>> 0;
+    switch (format) {
+      case 'bin':
+        return `0b${value.toString(2).padStart(wordBits, '0')}`;
+      case 'hex':
+        return value.toString(16).padStart(Math.ceil(wordBits / 4), '0');
+      default:
+        return String(value);
+    }
+  });
+
+  const lines: string[] = [];
+  for (let start = 0; start < tokens.length; start += wordsPerLine) {
+    const comment = wordsPerLine === 1 ? options.comments?.[start]?.replace(/\n/g, ' ') : undefined;
+    const line = tokens.slice(start, start + wordsPerLine).join(' ');
+    lines.push(comment ? `${line} // ${comment}` : line);
+  }
+  const text = lines.join('\n');
+
+  // A dump must load back as the same words
+  const reloaded = parseMemoryImage(text, { format, wordBits });
+  const mismatch = reloaded.findIndex((value, address) => value !== words[address] >>> 0);
+  if (reloaded.length !== words.length || mismatch !== -1) {
+    throw new Error(`Memory image does not load back: word ${mismatch === -1 ? reloaded.length : mismatch} differs`);
+  }
+  return text;
+}
+
+/**
+ * Parse one number, honouring a 0x prefix and, unless the radix is
+ * already 16 (where b is a digit), a 0b prefix
+ */
+function parseToken(token: string, radix: number, lineIndex: number): number {
+  let digits = token;
+  if (radix !== 16 && /^0b/i.test(token)) {
+    radix = 2;
+    digits = token.slice(2);
+  } else if (/^0x/i.test(token)) {
+    radix = 16;
+    digits = token.slice(2);
+  }
+  const value = DIGITS[radix].test(digits) ? parseInt(digits, radix) : NaN;
+  if (!Number.isFinite(value) || value > 0xffffffff) {
+    throw new Error(`Line ${lineIndex + 1}: invalid word "${token}"`);
+  }
+  return value;
+}
+
+/**
+ * Validate a word width, defaulting to 32
+ */
+function checkWordBits(wordBits = 32): number {
+  if (!Number.isInteger(wordBits) || wordBits < 1 || wordBits > 32) {
+    throw new Error(`wordBits must be an integer from 1 to 32, got ${wordBits}`);
+  }
+  return wordBits;
+}
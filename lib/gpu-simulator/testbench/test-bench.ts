@@ -0,0 +1,140 @@
+/**
+ * Test Bench
+ * Runs test cases imported from tiny-gpu's cocotb tests: an upstream
+ * program image, a data memory image, a thread count and the expected
+ * data memory, so the port can be checked against the Verilog
+ */
+
+import type { Word } from '../types';
+import type { ExecutionEngine, LaunchResult } from '../execution/execution-engine';
+import { parseMemoryImage } from './memory-image';
+import { fromTinyGpuProgram, TINY_GPU_DATA_BITS } from './tiny-gpu-encoding';
+import { parseExpectations, checkExpectations, type ExpectationMismatch } from './expectations';
+
+export const TINY_GPU_THREADS_PER_BLOCK = 4;
+
+export interface TestBenchCase {
+  name: string;
+  program: string; // Upstream 16-bit program memory image, binary
+  data: string; // Data memory image, decimal
+  threads: number; // Total threads, as passed to the upstream device control register
+  expectations: string; // See parseExpectations
+}
+
+export interface TestBenchResult {
+  name: string;
+  passed: boolean;
+  mismatches: ExpectationMismatch[];
+  launch: LaunchResult;
+}
+
+/**
+ * Run a test case on an engine (which must use 'nzp' branch mode) and
+ * check the data memory, comparing the low 8 bits as upstream stores them
+ *
+ * Upstream splits the threads into blocks of four; the port has no
+ * partial blocks, so more than four threads must be a multiple of four.
+ */
+export function runTestBench(engine: ExecutionEngine, testCase: TestBenchCase): TestBenchResult {
+  const { threads } = testCase;
+  if (!Number.isInteger(threads) || threads < 1) {
+    throw new Error(`${testCase.name}: thread count must be a positive integer, got ${threads}`);
+  }
+  if (threads > TINY_GPU_THREADS_PER_BLOCK && threads % TINY_GPU_THREADS_PER_BLOCK !== 0) {
+    throw new Error(
+      `${testCase.name}: ${threads} threads do not fill blocks of ${TINY_GPU_THREADS_PER_BLOCK}`
+    );
+  }
+
+  const program = fromTinyGpuProgram(parseMemoryImage(testCase.program, { format: 'bin', wordBits: 16 }));
+  const memoryImage: Word[] = parseMemoryImage(testCase.data, { format: 'dec', wordBits: TINY_GPU_DATA_BITS });
+  const launch = engine.launch({
+    program,
+    gridDim: Math.ceil(threads / TINY_GPU_THREADS_PER_BLOCK),
+    blockDim: Math.min(threads, TINY_GPU_THREADS_PER_BLOCK),
+    memoryImage,
+  });
+
+  const mismatches = checkExpectations(launch.memory, parseExpectations(testCase.expectations), {
+    wordBits: TINY_GPU_DATA_BITS,
+  });
+  return { name: testCase.name, passed: launch.completed && mismatches.length === 0, mismatches, launch };
+}
+
+/**
+ * test/test_matadd.py: C = A + B for two 1 x 8 vectors, one thread per element
+ */
+export const TINY_GPU_MATADD_TEST: TestBenchCase = {
+  name: 'matadd',
+  program: `
+    0b0101000011011110, # MUL R0, %blockIdx, %blockDim
+    0b0011000000001111, # ADD R0, R0, %threadIdx         ; i = blockIdx * blockDim + threadIdx
+    0b1001000100000000, # CONST R1, #0                   ; baseA
+    0b1001001000001000, # CONST R2, #8                   ; baseB
+    0b1001001100010000, # CONST R3, #16                  ; baseC
+    0b0011010000010000, # ADD R4, R1, R0                 ; addr(A[i]) = baseA + i
+    0b0111010001000000, # LDR R4, R4                     ; load A[i]
+    0b0011010100100000, # ADD R5, R2, R0                 ; addr(B[i]) = baseB + i
+    0b0111010101010000, # LDR R5, R5                     ; load B[i]
+    0b0011011001000101, # ADD R6, R4, R5                 ; C[i] = A[i] + B[i]
+    0b0011011100110000, # ADD R7, R3, R0                 ; addr(C[i]) = baseC + i
+    0b1000000001110110, # STR R7, R6                     ; store C[i]
+    0b1111000000000000, # RET
+  `,
+  data: `
+    0, 1, 2, 3, 4, 5, 6, 7, # A (1 x 8)
+    0, 1, 2, 3, 4, 5, 6, 7, # B (1 x 8)
+  `,
+  threads: 8,
+  expectations: `
+    16: 0 2 4 6 8 10 12 14  # C (1 x 8)
+  `,
+};
+
+/**
+ * test/test_matmul.py: C = A x B for two 2 x 2 matrices, one thread per element
+ */
+export const TINY_GPU_MATMUL_TEST: TestBenchCase = {
+  name: 'matmul',
+  program: `
+    0b0101000011011110, # MUL R0, %blockIdx, %blockDim
+    0b0011000000001111, # ADD R0, R0, %threadIdx         ; i = blockIdx * blockDim + threadIdx
+    0b1001000100000001, # CONST R1, #1                   ; increment
+    0b1001001000000010, # CONST R2, #2                   ; N (matrix inner dimension)
+    0b1001001100000000, # CONST R3, #0                   ; baseA
+    0b1001010000000100, # CONST R4, #4                   ; baseB
+    0b1001010100001000, # CONST R5, #8                   ; baseC
+    0b0110011000000010, # DIV R6, R0, R2                 ; row = i // N
+    0b0101011101100010, # MUL R7, R6, R2
+    0b0100011100000111, # SUB R7, R0, R7                 ; col = i % N
+    0b1001100000000000, # CONST R8, #0                   ; acc = 0
+    0b1001100100000000, # CONST R9, #0                   ; k = 0
+                        # LOOP:
+    0b0101101001100010, #   MUL R10, R6, R2
+    0b0011101010101001, #   ADD R10, R10, R9
+    0b0011101010100011, #   ADD R10, R10, R3             ; addr(A[i]) = row * N + k + baseA
+    0b0111101010100000, #   LDR R10, R10                 ; load A[i]
+    0b0101101110010010, #   MUL R11, R9, R2
+    0b0011101110110111, #   ADD R11, R11, R7
+    0b0011101110110100, #   ADD R11, R11, R4             ; addr(B[i]) = k * N + col + baseB
+    0b0111101110110000, #   LDR R11, R11                 ; load B[i]
+    0b0101110010101011, #   MUL R12, R10, R11
+    0b0011100010001100, #   ADD R8, R8, R12              ; acc = acc + A[i] * B[i]
+    0b0011100110010001, #   ADD R9, R9, R1               ; increment k
+    0b0010000010010010, #   CMP R9, R2
+    0b0001100000001100, #   BRn LOOP                     ; loop while k < N
+    0b0011100101010000, # ADD R9, R5, R0                 ; addr(C[i]) = baseC + i
+    0b1000000010011000, # STR R9, R8                     ; store C[i]
+    0b1111000000000000, # RET
+  `,
+  data: `
+    1, 2, 3, 4, # A (2 x 2)
+    1, 2, 3, 4, # B (2 x 2)
+  `,
+  threads: 4,
+  expectations: `
+    8: 7 10 15 22  # C (2 x 2)
+  `,
+};
+
+export const TINY_GPU_TESTS: readonly TestBenchCase[] = [TINY_GPU_MATADD_TEST, TINY_GPU_MATMUL_TEST];
@@ -0,0 +1,183 @@
+/**
+ * tiny-gpu Encoding
+ * Translation between upstream tiny-gpu's 16-bit instruction words and
+ * this port's 32-bit encoding
+ *
+ * Upstream layout: opcode 15-12, rd 11-8, rs 7-4, rt 3-0, imm 7-0 and,
+ * for BRnzp, the condition mask in 11-9 and an absolute target in 7-0.
+ * The port's branches are PC-relative with fixed conditions, so BRnzp
+ * masks with no single equivalent (n|p, z|p) become two branches and
+ * every target is recomputed. Translated programs need 'nzp' branch mode.
+ *
+ * Upstream registers and data memory are 8 bits wide while the port's
+ * are 32, so results agree only while values stay below 256.
+ */
+
+import type { Word, Instruction } from '../types';
+import { InstructionEncoder } from '../instruction-set/encoder';
+import { InstructionDecoder } from '../instruction-set/decoder';
+
+export const TINY_GPU_PROGRAM_WORDS = 256; // 8-bit program address
+export const TINY_GPU_DATA_BITS = 8;
+
+const TINY_GPU_OPCODES: Record<number, string> = {
+  0b0000: 'NOP',
+  0b0001: 'BRnzp',
+  0b0010: 'CMP',
+  0b0011: 'ADD',
+  0b0100: 'SUB',
+  0b0101: 'MUL',
+  0b0110: 'DIV',
+  0b0111: 'LDR',
+  0b1000: 'STR',
+  0b1001: 'CONST',
+  0b1111: 'RET',
+};
+
+const ARITHMETIC_OPCODES: Record<string, number> = { ADD: 0b0011, SUB: 0b0100, MUL: 0b0101, DIV: 0b0110 };
+
+const NZP_N = 0b100;
+const NZP_Z = 0b010;
+const NZP_P = 0b001;
+
+/**
+ * Port branches taken for each upstream nzp mask
+ */
+const BRANCHES_FOR_NZP: Record<number, string[]> = {
+  0b000: [],
+  [NZP_N]: ['BRn'],
+  [NZP_Z]: ['BRz'],
+  [NZP_P]: ['BRp'],
+  [NZP_N | NZP_Z]: ['BRnz'],
+  [NZP_N | NZP_P]: ['BRn', 'BRp'],
+  [NZP_Z | NZP_P]: ['BRz', 'BRp'],
+  [NZP_N | NZP_Z | NZP_P]: ['BR'],
+};
+
+const NZP_FOR_BRANCH: Record<string, number> = {
+  BR: NZP_N | NZP_Z | NZP_P,
+  BRn: NZP_N,
+  BRz: NZP_Z,
+  BRp: NZP_P,
+  BRnz: NZP_N | NZP_Z,
+};
+
+const encoder = new InstructionEncoder();
+const decoder = new InstructionDecoder();
+
+/**
+ * Translate upstream tiny-gpu instruction words into this port's encoding
+ */
+export function fromTinyGpuProgram(words: ArrayLike<number>): Word[] {
+  if (words.length > TINY_GPU_PROGRAM_WORDS) {
+    throw new Error(`tiny-gpu programs hold at most ${TINY_GPU_PROGRAM_WORDS} words, got ${words.length}`);
+  }
+
+  // Each upstream word becomes one or more port instructions; a branch
+  // keeps its absolute upstream target until the layout is known
+  const expanded = Array.from(words, (word, pc) => translateWord(word, pc));
+  const start: number[] = [0];
+  expanded.forEach((instructions, pc) => start.push(start[pc] + instructions.length));
+  const relocate = (target: number) =>
+    target < expanded.length ? start[target] : start[expanded.length] + target - expanded.length;
+
+  const program: Word[] = [];
+  for (const instructions of expanded) {
+    for (const { instruction, target } of instructions) {
+      const pc = program.length;
+      const resolved = target === undefined ? instruction : { ...instruction, immediate: relocate(target) - pc };
+      program.push(encoder.encode(resolved));
+    }
+  }
+  return program;
+}
+
+/**
+ * Translate a program in this port's encoding into upstream tiny-gpu
+ * words; throws for instructions upstream does not have
+ */
+export function toTinyGpuProgram(program: ArrayLike<number>): Word[] {
+  if (program.length > TINY_GPU_PROGRAM_WORDS) {
+    throw new Error(`tiny-gpu programs hold at most ${TINY_GPU_PROGRAM_WORDS} words, got ${program.length}`);
+  }
+
+  return Array.from(program, (word, pc) => {
+    const instruction = decoder.decode(word);
+    const { opcode, rd = 0, rs1 = 0, rs2 = 0, immediate = 0 } = instruction;
+    const unsupported = (why: string) => new Error(`PC ${pc}: ${opcode} ${why} in tiny-gpu`);
+
+    switch (opcode) {
+      case 'NOP':
+        return 0;
+      case 'RET':
+        return 0b1111 << 12;
+      case 'ADD':
+      case 'SUB':
+      case 'MUL':
+      case 'DIV':
+        return (ARITHMETIC_OPCODES[opcode] << 12) | (rd << 8) | (rs1 << 4) | rs2;
+      case 'CMP':
+        return (0b0010 << 12) | (rs1 << 4) | rs2;
+      case 'STR':
+        return (0b1000 << 12) | (rs1 << 4) | rs2;
+      case 'LDR':
+        if (immediate !== 0) throw unsupported('has no address offset');
+        return (0b0111 << 12) | (rd << 8) | (rs1 << 4);
+      case 'CONST':
+        if (immediate < 0 || immediate > 0xff) throw unsupported(`immediate ${immediate} does not fit`);
+        return (0b1001 << 12) | (rd << 8) | immediate;
+      case 'BR':
+      case 'BRn':
+      case 'BRz':
+      case 'BRp':
+      case 'BRnz': {
+        const target = pc + immediate;
+        if (target < 0 || target > 0xff) throw unsupported(`target ${target} is out of range`);
+        return (0b0001 << 12) | (NZP_FOR_BRANCH[opcode] << 9) | target;
+      }
+      default:
+        throw unsupported('has no encoding');
+    }
+  });
+}
+
+/**
+ * Translate one upstream word; branch targets are left absolute
+ */
+function translateWord(word: number, pc: number): { instruction: Instruction; target?: number }[] {
+  if (!Number.isInteger(word) || word < 0 || word > 0xffff) {
+    throw new Error(`PC ${pc}: ${word} is not a 16-bit tiny-gpu instruction`);
+  }
+  const opcode = TINY_GPU_OPCODES[word >> 12];
+  const rd = (word >> 8) & 0xf;
+  const rs = (word >> 4) & 0xf;
+  const rt = word & 0xf;
+  const immediate = word & 0xff;
+
+  switch (opcode) {
+    case 'NOP':
+    case 'RET':
+      return [{ instruction: { opcode } }];
+    case 'ADD':
+    case 'SUB':
+    case 'MUL':
+    case 'DIV':
+      return [{ instruction: { opcode, rd, rs1: rs, rs2: rt } }];
+    case 'CMP':
+    case 'STR':
+      return [{ instruction: { opcode, rs1: rs, rs2: rt } }];
+    case 'LDR':
+      return [{ instruction: { opcode, rd, rs1: rs, immediate: 0 } }];
+    case 'CONST':
+      return [{ instruction: { opcode, rd, immediate } }];
+    case 'BRnzp': {
+      const branches = BRANCHES_FOR_NZP[(word >> 9) & 0b111];
+      if (branches.length === 0) {
+        return [{ instruction: { opcode: 'NOP' } }]; // Empty mask: never taken
+      }
+      return branches.map((branch) => ({ instruction: { opcode: branch, rs1: 0 }, target: immediate }));
+    }
+    default:
+      throw new Error(`PC ${pc}: unknown tiny-gpu opcode 0b${(word >> 12).toString(2).padStart(4, '0')}`);
+  }
+}
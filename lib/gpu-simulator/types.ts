@@ -13,11 +13,14 @@ export interface MemoryRequest {
   write: boolean;
   threadId: number;
   blockId: number;
+  warpId?: number; // Issuing warp; requests without one are never coalesced
+  register?: RegisterIndex; // Destination register for loads
 }
 
 export interface MemoryResponse {
   data: Word;
   valid: boolean;
+  requestId?: number;
 }
 
 export interface CacheLine {
@@ -27,25 +30,87 @@ export interface CacheLine {
   dirty: boolean;
 }
 
+export type ReplacementPolicy = 'lru' | 'fifo' | 'random';
+export type WritePolicy = 'write-back' | 'write-through';
+
+/**
+ * Shared second-level cache behind the per-core L1 (same line size as L1)
+ */
+export interface L2Config {
+  cacheSize: number; // Size in lines
+  hitLatency: number; // Cycles for an L1 miss that hits in L2
+  associativity?: number; // Default 1
+  replacementPolicy?: ReplacementPolicy; // Default 'lru'
+  writePolicy?: WritePolicy; // Default 'write-back'
+}
+
+export type PagePolicy = 'open' | 'closed';
+
+/**
+ * DRAM timing for accesses that reach global memory: channels of banks,
+ * each bank with one row buffer
+ * Cache lines are interleaved across channels, then across banks.
+ */
+export interface DRAMConfig {
+  channels?: number; // Default 1
+  banksPerChannel?: number; // Default 8
+  rowSize?: number; // Words per row, a multiple of lineSize (default 256)
+  pagePolicy?: PagePolicy; // 'open' keeps a row open after an access, 'closed' precharges at once (default 'open')
+  rowHitLatency: number; // Cycles for an access to the open row
+  rowMissLatency: number; // Cycles when another row is open (precharge, activate, access)
+  rowEmptyLatency?: number; // Cycles when no row is open (activate, access); default rowMissLatency
+  wordsPerCycle?: number; // Data bus bandwidth cap per channel (default unlimited)
+}
+
 export interface MemoryConfig {
   globalMemorySize: number; // Size in words
   cacheSize: number; // Cache size in lines
   lineSize: number; // Words per cache line
-  latency: number; // Memory access latency in cycles
+  latency: number; // Memory access latency in cycles (cache miss or uncached)
+  cacheHitLatency?: number; // Cache hit latency in cycles (default 1)
+  associativity?: number; // Ways per set (default 1 = direct-mapped; cacheSize = fully associative)
+  replacementPolicy?: ReplacementPolicy; // Default 'lru'
+  writePolicy?: WritePolicy; // Default 'write-through'
+  writeAllocate?: boolean; // Allocate a line on write miss (default true)
+  l2?: L2Config; // Optional L2 between the cache and global memory
+  dram?: DRAMConfig; // Optional DRAM timing model; replaces `latency` for accesses that reach global memory
 }
 
 export interface ThreadState {
   id: number;
   blockId: number;
   pc: Address;
-  registers: Word[];
+  registers: Word[]; // Copy of the register file, refreshed by ExecutionEngine.getState()
   active: boolean;
+  nzp?: number; // Condition codes set by CMP (n=0b100, z=0b010, p=0b001), refreshed with registers
+  waitingAtBarrier?: boolean; // Parked at SYNC until the rest of the block arrives
 }
 
+/**
+ * How conditional branches decide whether to jump
+ * - nzp:      test the NZP condition codes set by the last CMP (tiny-gpu)
+ * - register: test the sign/zero of rs1 directly (legacy behaviour)
+ */
+export type BranchMode = 'nzp' | 'register';
+
+/**
+ * How a core picks the warp that issues each cycle
+ * - round-robin:        strict rotation; the slot is lost if that warp is stalled
+ * - loose-round-robin:  rotation that skips stalled warps (default)
+ * - greedy-then-oldest: keep issuing the same warp until it stalls, then the oldest ready one
+ * - two-level:          loose round-robin over a small active pool; stalled warps
+ *                       are swapped out for ready ones from a pending pool
+ */
+export type WarpSchedulingPolicyName =
+  | 'round-robin'
+  | 'loose-round-robin'
+  | 'greedy-then-oldest'
+  | 'two-level';
+
 export interface BlockState {
   id: number;
   threads: ThreadState[];
-  sharedMemory?: Word[];
+  sharedMemory?: Word[]; // Per-block scratch memory (LDS/STS)
 }
 
 export interface Instruction {
@@ -57,10 +122,54 @@ export interface Instruction {
   address?: Address;
 }
 
+/**
+ * Kinds of simulator fault
+ * - global-out-of-bounds: LDR/STR address at or beyond globalMemorySize
+ * - shared-out-of-bounds: LDS/STS address at or beyond sharedMemorySize
+ * - divide-by-zero:       integer DIV with a zero divisor
+ * - illegal-instruction:  opcode field that is not in the ISA
+ * - pc-out-of-range:      thread fetched outside the program (e.g. no RET)
+ * - read-only-register:   instruction writes R13-R15 (%blockIdx, %blockDim, %threadIdx)
+ * - barrier-deadlock:     thread waits at a SYNC the rest of its block can never reach
+ */
+export type FaultKind =
+  | 'global-out-of-bounds'
+  | 'shared-out-of-bounds'
+  | 'divide-by-zero'
+  | 'illegal-instruction'
+  | 'pc-out-of-range'
+  | 'read-only-register'
+  | 'barrier-deadlock';
+
+/**
+ * What the simulator does when a fault occurs
+ * - trap-stop:     record the fault and halt the kernel at the end of the cycle
+ * - trap-continue: record the fault and carry on
+ * - ignore:        carry on without recording it
+ * Execution always carries on the same way: out-of-bounds loads read 0,
+ * out-of-bounds stores are dropped, DIV by zero gives 0, illegal
+ * instructions and writes to read-only registers act as NOP and a thread
+ * outside the program exits.
+ */
+export type FaultAction = 'trap-stop' | 'trap-continue' | 'ignore';
+
+export interface Fault {
+  kind: FaultKind;
+  cycle: number;
+  threadId: number;
+  blockId: number;
+  pc: Address;
+  word?: Word; // Instruction word (absent for pc-out-of-range)
+  instruction?: Instruction; // Decoded instruction (absent for pc-out-of-range)
+  address?: Address; // Faulting memory address
+  message: string;
+}
+
 export interface GPUState {
-  memory: Word[];
+  memory: Word[]; // Copy of global memory
   cache: CacheLine[];
   threads: ThreadState[];
   blocks: BlockState[];
   cycle: number;
+  faults: Fault[];
 }
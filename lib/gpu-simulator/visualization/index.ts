@@ -0,0 +1,15 @@
+/**
+ * Visualization Tools
+ */
+
+export {
+  SimulationRecorder,
+  type ThreadFrame,
+  type WarpFrame,
+  type MemoryAccessFrame,
+  type CycleFrame,
+  type MemoryHeatmap,
+  type CacheActivity,
+  type SimulationRecorderOptions,
+} from './simulation-recorder';
+export { VCDTracer, type VCDTracerOptions } from './vcd-tracer';
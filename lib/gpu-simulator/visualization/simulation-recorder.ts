@@ -0,0 +1,249 @@
+/**
+ * Simulation Recorder
+ * Captures per-cycle snapshots of warps, threads and memory traffic so a
+ * run can be replayed, paused and scrubbed in the UI
+ */
+
+import type { Address } from '../types';
+import type { Warp } from '../core/thread-scheduler';
+import type { ExecutionEngine, ExecutionObserver } from '../execution/execution-engine';
+
+export interface ThreadFrame {
+  id: number;
+  blockId: number;
+  pc: Address;
+  active: boolean; // False once the thread has returned
+  waitingAtBarrier: boolean;
+}
+
+export interface WarpFrame {
+  id: number; // Index of the warp in scheduling order
+  blockId: number;
+  pc: Address; // PC of the path currently executing
+  activeMask: number; // Lanes of the path currently executing
+  stackDepth: number; // SIMT stack entries; more than one means divergence
+  pendingRequests: number;
+  finished: boolean;
+  threads: ThreadFrame[];
+}
+
+export interface MemoryAccessFrame {
+  address: Address;
+  write: boolean;
+  cacheHit: boolean | null; // Of the access's transaction; null when the cache is disabled
+  coalesced: boolean; // Shares a transaction opened by an earlier lane of the same warp
+  threadId: number;
+  pc: Address;
+}
+
+/**
+ * State at the end of one cycle and what happened during it
+ */
+export interface CycleFrame {
+  cycle: number;
+  issuedWarp: number | null; // Warp that issued this cycle, null if none
+  issuedPC: Address | null;
+  opcode: string | null;
+  lanes: number; // Threads that executed the issued instruction
+  warps: WarpFrame[];
+  accesses: MemoryAccessFrame[];
+}
+
+/**
+ * Read and write counts per address, accumulated over a range of cycles
+ */
+export interface MemoryHeatmap {
+  reads: number[];
+  writes: number[];
+  max: number; // Largest reads + writes of any address, for colour scaling
+}
+
+export interface CacheActivity {
+  hits: number; // Cache lookups, one per transaction
+  misses: number;
+  coalesced: number; // Accesses that shared an earlier lane's transaction and lookup
+  uncached: number; // Accesses made with the cache disabled
+}
+
+export interface SimulationRecorderOptions {
+  maxFrames?: number; // Frames kept before recording stops (default 10000)
+}
+
+export class SimulationRecorder {
+  private engine: ExecutionEngine;
+  private observer: ExecutionObserver;
+  private readonly maxFrames: number;
+
+  private frames: CycleFrame[] = [];
+  private truncated = false;
+
+  // Events of the cycle in progress
+  private issued: { warpId: number; pc: Address; opcode: string; lanes: number } | null = null;
+  private accesses: MemoryAccessFrame[] = [];
+
+  constructor(engine: ExecutionEngine, options: SimulationRecorderOptions = {}) {
+    this.engine = engine;
+    this.maxFrames = options.maxFrames ?? 10000;
+
+    this.observer = {
+      onCycleStart: (cycle) => {
+        if (cycle === 0) {
+          this.reset();
+        }
+        this.issued = null;
+        this.accesses = [];
+      },
+      onInstruction: (event) => {
+        if (!this.issued) {
+          this.issued = {
+            warpId: event.warpId,
+            pc: event.pc,
+            opcode: event.instruction.opcode,
+            lanes: 0,
+          };
+        }
+        this.issued.lanes++;
+      },
+      onMemoryAccess: (event) => {
+        this.accesses.push({
+          address: event.address,
+          write: event.write,
+          cacheHit: event.cacheHit,
+          coalesced: event.coalesced,
+          threadId: event.thread.id,
+          pc: event.pc,
+        });
+      },
+      onCycleEnd: (cycle) => this.endCycle(cycle),
+    };
+    this.engine.addObserver(this.observer);
+  }
+
+  /**
+   * Stop observing the engine
+   */
+  detach(): void {
+    this.engine.removeObserver(this.observer);
+  }
+
+  /**
+   * Drop all frames (done automatically when a new launch starts at cycle 0)
+   */
+  reset(): void {
+    this.frames = [];
+    this.truncated = false;
+    this.issued = null;
+    this.accesses = [];
+  }
+
+  /**
+   * Get every recorded frame, in cycle order
+   */
+  getFrames(): readonly CycleFrame[] {
+    return this.frames;
+  }
+
+  /**
+   * Get the frame of a cycle, if it was recorded
+   */
+  getFrame(cycle: number): CycleFrame | undefined {
+    // Frames are contiguous from cycle 0 unless recording started mid-run
+    const offset = this.frames.length > 0 ? this.frames[0].cycle : 0;
+    const frame = this.frames[cycle - offset];
+    return frame && frame.cycle === cycle ? frame : undefined;
+  }
+
+  /**
+   * Check whether maxFrames was reached and later cycles were dropped
+   */
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  /**
+   * Count reads and writes per address over the frames up to and
+   * including `untilCycle` (default: all frames)
+   */
+  getHeatmap(untilCycle: number = Infinity, memorySize?: number): MemoryHeatmap {
+    const size = memorySize ?? this.engine.getMemory().length;
+    const reads = new Array(size).fill(0);
+    const writes = new Array(size).fill(0);
+
+    for (const frame of this.frames) {
+      if (frame.cycle > untilCycle) break;
+      for (const access of frame.accesses) {
+        if (access.address < 0 || access.address >= size) continue;
+        if (access.write) {
+          writes[access.address]++;
+        } else {
+          reads[access.address]++;
+        }
+      }
+    }
+
+    let max = 0;
+    for (let i = 0; i < size; i++) {
+      max = Math.max(max, reads[i] + writes[i]);
+    }
+    return { reads, writes, max };
+  }
+
+  /**
+   * Count cache hits, misses and coalesced accesses over the frames up to
+   * and including `untilCycle` (default: all frames)
+   */
+  getCacheActivity(untilCycle: number = Infinity): CacheActivity {
+    const activity: CacheActivity = { hits: 0, misses: 0, coalesced: 0, uncached: 0 };
+    for (const frame of this.frames) {
+      if (frame.cycle > untilCycle) break;
+      for (const access of frame.accesses) {
+        if (access.cacheHit === null) activity.uncached++;
+        else if (access.coalesced) activity.coalesced++;
+        else if (access.cacheHit) activity.hits++;
+        else activity.misses++;
+      }
+    }
+    return activity;
+  }
+
+  /**
+   * Snapshot every warp at the end of the cycle
+   */
+  private endCycle(cycle: number): void {
+    if (this.frames.length >= this.maxFrames) {
+      this.truncated = true;
+      return;
+    }
+
+    this.frames.push({
+      cycle,
+      issuedWarp: this.issued?.warpId ?? null,
+      issuedPC: this.issued?.pc ?? null,
+      opcode: this.issued?.opcode ?? null,
+      lanes: this.issued?.lanes ?? 0,
+      warps: this.engine.getWarps().map((warp, id) => this.captureWarp(warp, id)),
+      accesses: this.accesses,
+    });
+    this.issued = null;
+    this.accesses = [];
+  }
+
+  private captureWarp(warp: Warp, id: number): WarpFrame {
+    return {
+      id,
+      blockId: warp.threads[0]?.blockId ?? 0,
+      pc: warp.pc,
+      activeMask: warp.activeMask,
+      stackDepth: warp.stack.length,
+      pendingRequests: warp.pendingRequests,
+      finished: !warp.active || (warp.threads.every((t) => !t.active) && warp.pendingRequests === 0),
+      threads: warp.threads.map((t) => ({
+        id: t.id,
+        blockId: t.blockId,
+        pc: t.pc,
+        active: t.active,
+        waitingAtBarrier: t.waitingAtBarrier === true,
+      })),
+    };
+  }
+}
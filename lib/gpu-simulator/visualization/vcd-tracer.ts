@@ -0,0 +1,383 @@
+/**
+ * VCD Tracer
+ * Records per-cycle signals of a run as an IEEE-1364 Value Change Dump,
+ * so the simulator can be lined up with the Verilog in GTKWave
+ *
+ * Signals, sampled once per clock cycle:
+ * - gpu: clk, cycle
+ * - gpu.warpN: pc and active_mask at issue, opcode issued this cycle (x if
+ *   none), and lane masks of memory requests, memory responses, cache hits
+ *   and cache misses
+ * - gpu.warpN.threadK: reg_we, reg_rd and reg_data of register writes,
+ *   including load data written back when its response arrives (a thread
+ *   shows only the later write if it has two in one cycle)
+ */
+
+import type { ExecutionEngine, ExecutionObserver } from '../execution/execution-engine';
+import type { Warp } from '../core/thread-scheduler';
+import { getOpcodeByMnemonic, type OperandFormat } from '../instruction-set/opcodes';
+
+export interface VCDTracerOptions {
+  timescale?: string; // VCD time unit (default '1ns')
+  clockPeriod?: number; // Time units per cycle, even (default 10)
+  maxCycles?: number; // Cycles traced before tracing stops (default 100000)
+  registerWrites?: boolean; // Trace per-thread register writes (default true)
+}
+
+interface VCDSignal {
+  id: string; // Identifier code
+  name: string;
+  width: number;
+  value: string; // '0', '1', 'x' or binary digits
+}
+
+interface VCDScope {
+  name: string;
+  signals: VCDSignal[];
+  children: Map<string, VCDScope>;
+}
+
+interface WarpSignals {
+  pc: VCDSignal;
+  activeMask: VCDSignal;
+  opcode: VCDSignal;
+  memRequest: VCDSignal;
+  memResponse: VCDSignal;
+  cacheHit: VCDSignal;
+  cacheMiss: VCDSignal;
+}
+
+interface ThreadSignals {
+  writeEnable: VCDSignal;
+  rd: VCDSignal;
+  data: VCDSignal;
+}
+
+/**
+ * Lane masks and register writes of the cycle in progress
+ */
+interface CycleActivity {
+  opcode: Map<number, number>; // Warp -> opcode code
+  memRequest: Map<number, number>;
+  memResponse: Map<number, number>;
+  cacheHit: Map<number, number>;
+  cacheMiss: Map<number, number>;
+  registerWrites: Map<number, { rd: number; value: number }>; // Thread -> last write
+}
+
+const REGISTER_WRITING_FORMATS = new Set<OperandFormat>(['rd-imm', 'rd-rs1', 'rd-rs1-rs2', 'rd-rs1-imm']);
+
+export class VCDTracer {
+  private engine: ExecutionEngine;
+  private observer: ExecutionObserver;
+  private readonly timescale: string;
+  private readonly clockPeriod: number;
+  private readonly maxCycles: number;
+  private readonly traceRegisters: boolean;
+
+  private root!: VCDScope;
+  private signalCount = 0;
+  private clk!: VCDSignal;
+  private cycleSignal!: VCDSignal;
+  private warps = new Map<number, WarpSignals>();
+  private threads = new Map<number, ThreadSignals>();
+  private lanes = new Map<number, { warpId: number; lane: number }>(); // By thread id
+
+  private body: string[] = [];
+  private changed: VCDSignal[] = [];
+  private activity: CycleActivity = VCDTracer.emptyActivity();
+  private writtenLastCycle: number[] = [];
+  private cycles = 0;
+  private lastCycle: number | null = null;
+  private truncated = false;
+
+  constructor(engine: ExecutionEngine, options: VCDTracerOptions = {}) {
+    const clockPeriod = options.clockPeriod ?? 10;
+    if (!Number.isInteger(clockPeriod) || clockPeriod < 2 || clockPeriod % 2 !== 0) {
+      throw new Error(`clockPeriod must be an even integer of at least 2, got ${clockPeriod}`);
+    }
+    this.engine = engine;
+    this.timescale = options.timescale ?? '1ns';
+    this.clockPeriod = clockPeriod;
+    this.maxCycles = options.maxCycles ?? 100000;
+    this.traceRegisters = options.registerWrites ?? true;
+    this.reset();
+
+    this.observer = {
+      onMemoryResponse: (event) => {
+        this.orMask(this.activity.memResponse, event.thread.id);
+        if (event.register !== undefined) {
+          this.activity.registerWrites.set(event.thread.id, { rd: event.register, value: event.data ?? 0 });
+        }
+      },
+      onCycleStart: (cycle) => {
+        if (cycle === 0) {
+          this.reset();
+        }
+        if (this.cycles >= this.maxCycles) {
+          this.truncated = true;
+          return;
+        }
+        this.engine.getWarps().forEach((warp, id) => this.sampleWarp(warp, id));
+      },
+      onInstruction: (event) => {
+        const info = getOpcodeByMnemonic(event.instruction.opcode);
+        this.activity.opcode.set(event.warpId, info?.code ?? 0);
+        const { rd } = event.instruction;
+        const writes = info && (REGISTER_WRITING_FORMATS.has(info.format) || info.mnemonic === 'LDS');
+        if (writes && rd !== undefined) {
+          this.activity.registerWrites.set(event.thread.id, { rd, value: event.thread.registers[rd] });
+        }
+      },
+      onMemoryAccess: (event) => {
+        this.orMask(this.activity.memRequest, event.thread.id);
+        if (event.cacheHit === true) {
+          this.orMask(this.activity.cacheHit, event.thread.id);
+        } else if (event.cacheHit === false) {
+          this.orMask(this.activity.cacheMiss, event.thread.id);
+        }
+      },
+      onCycleEnd: (cycle) => {
+        if (!this.truncated) {
+          this.endCycle(cycle);
+        }
+      },
+    };
+    this.engine.addObserver(this.observer);
+  }
+
+  /**
+   * Stop observing the engine
+   */
+  detach(): void {
+    this.engine.removeObserver(this.observer);
+  }
+
+  /**
+   * Drop the trace (done automatically when a new launch starts at cycle 0)
+   */
+  reset(): void {
+    this.root = { name: 'gpu', signals: [], children: new Map() };
+    this.signalCount = 0;
+    this.warps.clear();
+    this.threads.clear();
+    this.lanes.clear();
+    this.body = [];
+    this.changed = [];
+    this.activity = VCDTracer.emptyActivity();
+    this.writtenLastCycle = [];
+    this.cycles = 0;
+    this.lastCycle = null;
+    this.truncated = false;
+    this.clk = this.addSignal(this.root, 'clk', 1);
+    this.cycleSignal = this.addSignal(this.root, 'cycle', 32);
+  }
+
+  /**
+   * Check whether maxCycles was reached and later cycles were dropped
+   */
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  /**
+   * Get the trace as the text of a VCD file
+   */
+  getVCD(): string {
+    const lines = [
+      '$version tiny-gpu TypeScript simulator $end',
+      `$timescale ${this.timescale} $end`,
+      ...this.declareScope(this.root),
+      '$enddefinitions $end',
+      '#0',
+      '$dumpvars',
+      ...this.allSignals(this.root).map((signal) => VCDTracer.formatChange({ ...signal, value: 'x' })),
+      '$end',
+      ...this.body,
+    ];
+    if (this.lastCycle !== null) {
+      lines.push(`#${(this.lastCycle + 1) * this.clockPeriod}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Set a warp's issue PC and active mask, declaring its signals the
+   * first time it is seen
+   */
+  private sampleWarp(warp: Warp, id: number): void {
+    let signals = this.warps.get(id);
+    if (!signals) {
+      const width = Math.max(1, warp.threads.length);
+      const scope = this.addScope(this.root, `warp${id}`);
+      signals = {
+        pc: this.addSignal(scope, 'pc', 32),
+        activeMask: this.addSignal(scope, 'active_mask', width),
+        opcode: this.addSignal(scope, 'opcode', 8),
+        memRequest: this.addSignal(scope, 'mem_req_valid', width),
+        memResponse: this.addSignal(scope, 'mem_resp_valid', width),
+        cacheHit: this.addSignal(scope, 'cache_hit', width),
+        cacheMiss: this.addSignal(scope, 'cache_miss', width),
+      };
+      this.warps.set(id, signals);
+
+      warp.threads.forEach((thread, lane) => {
+        this.lanes.set(thread.id, { warpId: id, lane });
+        if (this.traceRegisters) {
+          const threadScope = this.addScope(scope, `thread${thread.id}`);
+          this.threads.set(thread.id, {
+            writeEnable: this.addSignal(threadScope, 'reg_we', 1),
+            rd: this.addSignal(threadScope, 'reg_rd', 4),
+            data: this.addSignal(threadScope, 'reg_data', 32),
+          });
+        }
+      });
+    }
+
+    this.set(signals.pc, warp.pc);
+    this.set(signals.activeMask, warp.activeMask);
+  }
+
+  /**
+   * Apply the cycle's activity and append its value changes, with the
+   * clock rising at the start of the cycle and falling halfway through
+   */
+  private endCycle(cycle: number): void {
+    const { activity } = this;
+    this.set(this.clk, 1);
+    this.set(this.cycleSignal, cycle);
+
+    this.warps.forEach((signals, id) => {
+      const opcode = activity.opcode.get(id);
+      this.set(signals.opcode, opcode ?? null);
+      this.set(signals.memRequest, activity.memRequest.get(id) ?? 0);
+      this.set(signals.memResponse, activity.memResponse.get(id) ?? 0);
+      this.set(signals.cacheHit, activity.cacheHit.get(id) ?? 0);
+      this.set(signals.cacheMiss, activity.cacheMiss.get(id) ?? 0);
+    });
+
+    if (this.traceRegisters) {
+      for (const threadId of this.writtenLastCycle) {
+        if (!activity.registerWrites.has(threadId)) {
+          this.set(this.threads.get(threadId)!.writeEnable, 0);
+        }
+      }
+      activity.registerWrites.forEach(({ rd, value }, threadId) => {
+        const signals = this.threads.get(threadId);
+        if (signals) {
+          this.set(signals.writeEnable, 1);
+          this.set(signals.rd, rd);
+          this.set(signals.data, value >>> 0);
+        }
+      });
+      this.writtenLastCycle = Array.from(activity.registerWrites.keys());
+    }
+
+    const time = cycle * this.clockPeriod;
+    if (time > 0) {
+      this.body.push(`#${time}`);
+    }
+    for (const signal of this.changed) {
+      this.body.push(VCDTracer.formatChange(signal));
+    }
+    this.changed = [];
+    this.set(this.clk, 0);
+    this.body.push(`#${time + this.clockPeriod / 2}`, VCDTracer.formatChange(this.clk));
+    this.changed = [];
+
+    this.activity = VCDTracer.emptyActivity();
+    this.lastCycle = cycle;
+    this.cycles++;
+  }
+
+  /**
+   * Set a signal's value (null for x), noting it if it changed
+   */
+  private set(signal: VCDSignal, value: number | null): void {
+    const text = value === null ? 'x' : signal.width === 1 ? String(value & 1) : (value >>> 0).toString(2);
+    if (text !== signal.value) {
+      signal.value = text;
+      this.changed.push(signal);
+    }
+  }
+
+  /**
+   * Set a thread's lane bit in a per-warp mask of the cycle
+   */
+  private orMask(masks: Map<number, number>, threadId: number): void {
+    const position = this.lanes.get(threadId);
+    if (position) {
+      masks.set(position.warpId, ((masks.get(position.warpId) ?? 0) | (1 << position.lane)) >>> 0);
+    }
+  }
+
+  /**
+   * Add a child scope
+   */
+  private addScope(parent: VCDScope, name: string): VCDScope {
+    const scope: VCDScope = { name, signals: [], children: new Map() };
+    parent.children.set(name, scope);
+    return scope;
+  }
+
+  /**
+   * Declare a signal with an unknown initial value
+   */
+  private addSignal(scope: VCDScope, name: string, width: number): VCDSignal {
+    const signal: VCDSignal = { id: VCDTracer.identifier(this.signalCount++), name, width, value: 'x' };
+    scope.signals.push(signal);
+    return signal;
+  }
+
+  /**
+   * $scope, $var and $upscope lines of a scope and its children
+   */
+  private declareScope(scope: VCDScope): string[] {
+    return [
+      `$scope module ${scope.name} $end`,
+      ...scope.signals.map((s) => `$var wire ${s.width} ${s.id} ${s.name}${s.width > 1 ? ` [${s.width - 1}:0]` : ''} $end`),
+      ...Array.from(scope.children.values()).flatMap((child) => this.declareScope(child)),
+      '$upscope $end',
+    ];
+  }
+
+  /**
+   * Signals of a scope and its children, in declaration order
+   */
+  private allSignals(scope: VCDScope): VCDSignal[] {
+    return [...scope.signals, ...Array.from(scope.children.values()).flatMap((child) => this.allSignals(child))];
+  }
+
+  /**
+   * Value change line: scalar `1!`, vector `b101 #`
+   */
+  private static formatChange(signal: VCDSignal): string {
+    return signal.width === 1 ? `${signal.value}${signal.id}` : `b${signal.value} ${signal.id}`;
+  }
+
+  /**
+   * Identifier code from printable ASCII 33-126
+   */
+  private static identifier(index: number): string {
+    let id = '';
+    do {
+      id += String.fromCharCode(33 + (index % 94));
+      index = Math.floor(index / 94);
+    } while (index > 0);
+    return id;
+  }
+
+  /**
+   * Activity of a cycle in which nothing happened
+   */
+  private static emptyActivity(): CycleActivity {
+    return {
+      opcode: new Map(),
+      memRequest: new Map(),
+      memResponse: new Map(),
+      cacheHit: new Map(),
+      cacheMiss: new Map(),
+      registerWrites: new Map(),
+    };
+  }
+}
@@ -6,25 +6,37 @@
 import { ExecutionEngine, type ExecutionConfig } from '../../gpu-simulator/execution/execution-engine';
 import { WebGPUBackend } from '../../gpu-simulator/webgpu-backend';
 import type { ModelWeights } from '../quantization/loader';
+import { SimulatorBackend } from './simulator-backend';
+
+export interface GPUExecutionOptions {
+  gpuSimulator?: ExecutionEngine; // Instruction-level simulator, used when WebGPU is unavailable
+  allowApproximate?: boolean; // Required with gpuSimulator: its kernels are int8, so results are approximate
+}
 
 /**
  * Execute matrix operations on GPU simulator
+ * matmul takes two square matrices of the same size; add and multiply
+ * take arrays of the same length.
  */
 export async function executeOnGPU(
   operation: 'matmul' | 'add' | 'multiply',
   A: Float32Array,
   B: Float32Array,
   webgpu: WebGPUBackend | null,
-  gpuSimulator?: ExecutionEngine
+  options: GPUExecutionOptions = {}
 ): Promise<Float32Array> {
+  const size = checkShapes(operation, A, B);
+  const { gpuSimulator, allowApproximate = false } = options;
+  if (gpuSimulator && !allowApproximate) {
+    throw new Error('The GPU simulator runs int8 kernels; set allowApproximate to accept approximate results');
+  }
+
   // Prefer WebGPU if available
   if (webgpu && webgpu.isAvailable()) {
     const device = webgpu.getDevice();
     if (device) {
       switch (operation) {
         case 'matmul':
-          // Assume square matrices for simplicity
-          const size = Math.sqrt(A.length);
           return await webgpu.matrixMultiply(device, A, B, size, size, size);
         case 'add':
         case 'multiply':
@@ -33,8 +45,39 @@ export async function executeOnGPU(
     }
   }
 
+  // Then the instruction-level simulator (int8, so approximate)
+  if (gpuSimulator) {
+    const backend = new SimulatorBackend(gpuSimulator);
+    switch (operation) {
+      case 'matmul':
+        return backend.matmul(A, B, size, size, size).output;
+      case 'add':
+        return backend.add(A, B).output;
+      case 'multiply':
+        return backend.multiply(A, B).output;
+    }
+  }
+
   // Fallback to CPU
-  return executeOnCPU(operation, A, B);
+  return executeOnCPU(operation, A, B, size);
+}
+
+/**
+ * Check operand shapes; returns the matrix size for matmul, else the length
+ */
+function checkShapes(operation: 'matmul' | 'add' | 'multiply', A: Float32Array, B: Float32Array): number {
+  if (operation !== 'matmul') {
+    if (A.length !== B.length) {
+      throw new Error(`${operation} needs arrays of the same length, got ${A.length} and ${B.length}`);
+    }
+    return A.length;
+  }
+
+  const size = Math.sqrt(A.length);
+  if (!Number.isInteger(size) || B.length !== A.length) {
+    throw new Error(`matmul needs two square matrices of the same size, got ${A.length} and ${B.length} elements`);
+  }
+  return size;
 }
 
 /**
@@ -43,16 +86,16 @@ export async function executeOnGPU(
 function executeOnCPU(
   operation: 'matmul' | 'add' | 'multiply',
   A: Float32Array,
-  B: Float32Array
+  B: Float32Array,
+  size: number
 ): Float32Array {
   switch (operation) {
     case 'add':
       return A.map((val, i) => val + B[i]);
     case 'multiply':
       return A.map((val, i) => val * B[i]);
-    case 'matmul':
+    case 'matmul': {
       // Simple matrix multiplication
-      const size = Math.sqrt(A.length);
       const result = new Float32Array(size * size);
       for (let i = 0; i < size; i++) {
         for (let j = 0; j < size; j++) {
@@ -64,5 +107,6 @@ function executeOnCPU(
         }
       }
       return result;
+    }
   }
 }
@@ -6,3 +6,4 @@ export * from './tokenizer';
 export * from './kv-cache';
 export * from './inference-engine';
 export * from './gpu-integration';
+export * from './simulator-backend';
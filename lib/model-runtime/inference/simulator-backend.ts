@@ -0,0 +1,196 @@
+/**
+ * Simulator Backend
+ * Runs small int8 model ops as kernels on the instruction-level GPU
+ * simulator, for toy model sizes
+ *
+ * Activations are quantized on the host to int8 with one symmetric scale
+ * per op; the simulator does the integer (or float activation) work and
+ * the host rescales the result.
+ */
+
+import type { ExecutionEngine } from '../../gpu-simulator/execution/execution-engine';
+import {
+  KernelLibrary,
+  type KernelLibraryOptions,
+  type KernelRun,
+} from '../../gpu-simulator/kernels/kernel-library';
+import type { QuantizedWeight } from '../quantization/quantization';
+
+export interface SimulatedOpResult {
+  output: Float32Array;
+  cycles: number; // Simulated GPU cycles, summed over launches
+  launches: number;
+}
+
+export interface SimulatedFFNResult extends SimulatedOpResult {
+  stages: { name: string; cycles: number }[]; // Per-op breakdown
+}
+
+/**
+ * int8 weights of a SwiGLU FFN, each [outFeatures, inFeatures]
+ */
+export interface QuantizedFFNWeights {
+  gateWeight: QuantizedWeight;
+  upWeight: QuantizedWeight;
+  downWeight: QuantizedWeight;
+}
+
+/**
+ * Scale of symmetric int8 codes covering [-maxAbs, maxAbs]
+ */
+function symmetricScale(maxAbs: number): number {
+  return maxAbs > 0 ? maxAbs / 127 : 1;
+}
+
+/**
+ * Symmetric int8 codes for `values`: value ~= code * symmetricScale(maxAbs)
+ */
+function quantizeSymmetric(values: ArrayLike<number>, maxAbs: number): Int8Array {
+  const scale = symmetricScale(maxAbs);
+  return Int8Array.from(values, (v) => Math.max(-127, Math.min(127, Math.round(v / scale))));
+}
+
+/**
+ * Largest magnitude over several arrays
+ */
+function maxAbsolute(...arrays: ArrayLike<number>[]): number {
+  let max = 0;
+  for (const values of arrays) {
+    for (let i = 0; i < values.length; i++) {
+      max = Math.max(max, Math.abs(values[i]));
+    }
+  }
+  return max;
+}
+
+/**
+ * Expand per-tensor or per-row parameters to one value per row
+ */
+function perRow(values: ArrayLike<number>, rows: number, name: string): number[] {
+  if (values.length === rows) {
+    return Array.from(values);
+  }
+  if (values.length === 1) {
+    return new Array(rows).fill(values[0]);
+  }
+  throw new Error(`${name} must have 1 or ${rows} entries, got ${values.length}`);
+}
+
+export class SimulatorBackend {
+  private kernels: KernelLibrary;
+
+  constructor(engine: ExecutionEngine, options: KernelLibraryOptions = {}) {
+    this.kernels = new KernelLibrary(engine, options);
+  }
+
+  /**
+   * input (rows x in) times an int8 weight [out, in], transposed as in a
+   * linear layer: output (rows x out)
+   */
+  matmulInt8(input: Float32Array, weight: QuantizedWeight): SimulatedOpResult {
+    if (weight.dtype !== 'int8' || !weight.zeroPoint || weight.shape.length !== 2) {
+      throw new Error('matmulInt8 needs a 2-D int8 weight with zero points');
+    }
+    const [outFeatures, inFeatures] = weight.shape;
+    if (input.length % inFeatures !== 0) {
+      throw new Error(`Input of ${input.length} values is not a multiple of ${inFeatures} features`);
+    }
+    const rows = input.length / inFeatures;
+    const scales = perRow(weight.scale, outFeatures, 'Weight scale');
+    const zeroPoints = perRow(weight.zeroPoint, outFeatures, 'Weight zero point');
+
+    const maxAbs = maxAbsolute(input);
+    const run = this.kernels.quantizedLinear(
+      quantizeSymmetric(input, maxAbs),
+      weight.data,
+      zeroPoints,
+      rows,
+      inFeatures,
+      outFeatures
+    );
+
+    const inputScale = symmetricScale(maxAbs);
+    const output = Float32Array.from(run.result, (acc, i) => acc * inputScale * scales[i % outFeatures]);
+    return this.wrap(run, output);
+  }
+
+  /**
+   * Float matrices (m x k) x (k x n), both quantized to int8 on the way in
+   */
+  matmul(a: Float32Array, b: Float32Array, m: number, k: number, n: number): SimulatedOpResult {
+    const maxA = maxAbsolute(a);
+    const maxB = maxAbsolute(b);
+    const run = this.kernels.matmul(quantizeSymmetric(a, maxA), quantizeSymmetric(b, maxB), m, k, n);
+    const scale = symmetricScale(maxA) * symmetricScale(maxB);
+    return this.wrap(run, Float32Array.from(run.result, (acc) => acc * scale));
+  }
+
+  /**
+   * Element-wise sum, with both operands quantized to one shared scale
+   */
+  add(a: Float32Array, b: Float32Array): SimulatedOpResult {
+    const maxAbs = maxAbsolute(a, b);
+    const run = this.kernels.matadd(quantizeSymmetric(a, maxAbs), quantizeSymmetric(b, maxAbs));
+    const scale = symmetricScale(maxAbs);
+    return this.wrap(run, Float32Array.from(run.result, (sum) => sum * scale));
+  }
+
+  /**
+   * Element-wise product in float32 (exact, no quantization)
+   */
+  multiply(a: Float32Array, b: Float32Array): SimulatedOpResult {
+    const run = this.kernels.vectorMultiply(a, b);
+    return this.wrap(run, run.result);
+  }
+
+  /**
+   * ReLU on int8 codes
+   */
+  relu(x: Float32Array): SimulatedOpResult {
+    const maxAbs = maxAbsolute(x);
+    const run = this.kernels.relu(quantizeSymmetric(x, maxAbs));
+    const scale = symmetricScale(maxAbs);
+    return this.wrap(run, Float32Array.from(run.result, (code) => code * scale));
+  }
+
+  /**
+   * SiLU (x * sigmoid(x)) of int8 codes, computed in float on the simulator
+   */
+  silu(x: Float32Array): SimulatedOpResult {
+    const maxAbs = maxAbsolute(x);
+    const run = this.kernels.silu(quantizeSymmetric(x, maxAbs), symmetricScale(maxAbs));
+    return this.wrap(run, run.result);
+  }
+
+  /**
+   * SwiGLU feed-forward for one token:
+   * down(silu(gate(x)) * up(x)), every op on the simulator
+   */
+  feedForward(hidden: Float32Array, weights: QuantizedFFNWeights): SimulatedFFNResult {
+    const stages: { name: string; result: SimulatedOpResult }[] = [];
+    const stage = (name: string, result: SimulatedOpResult): Float32Array => {
+      stages.push({ name, result });
+      return result.output;
+    };
+
+    const gate = stage('gate', this.matmulInt8(hidden, weights.gateWeight));
+    const up = stage('up', this.matmulInt8(hidden, weights.upWeight));
+    const activated = stage('silu', this.silu(gate));
+    const gated = stage('multiply', this.multiply(activated, up));
+    const output = stage('down', this.matmulInt8(gated, weights.downWeight));
+
+    return {
+      output,
+      cycles: stages.reduce((sum, s) => sum + s.result.cycles, 0),
+      launches: stages.reduce((sum, s) => sum + s.result.launches, 0),
+      stages: stages.map((s) => ({ name: s.name, cycles: s.result.cycles })),
+    };
+  }
+
+  /**
+   * Attach cycle counts to a host-side result
+   */
+  private wrap<T>(run: KernelRun<T>, output: Float32Array): SimulatedOpResult {
+    return { output, cycles: run.cycles, launches: run.launches.length };
+  }
+}
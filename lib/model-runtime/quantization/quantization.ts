@@ -67,6 +67,36 @@ export function dequantizeInt8(
   return result;
 }
 
+/**
+ * Quantize weights to 8 bits with one scale and zero point per row
+ * (shape[0] rows); dequantizeInt8 inverts it up to rounding
+ */
+export function quantizeInt8(weights: Float32Array, shape: number[]): QuantizedWeight {
+  const totalElements = shape.reduce((a, b) => a * b, 1);
+  if (weights.length !== totalElements) {
+    throw new Error(`Shape [${shape.join(', ')}] needs ${totalElements} weights, got ${weights.length}`);
+  }
+  const rows = shape[0];
+  const cols = totalElements / rows;
+  const data = new Uint8Array(totalElements);
+  const scale = new Float32Array(rows);
+  const zeroPoint = new Uint8Array(rows);
+
+  for (let r = 0; r < rows; r++) {
+    const row = weights.subarray(r * cols, (r + 1) * cols);
+    // Keep 0 representable so zero weights stay exact
+    const min = row.reduce((m, w) => Math.min(m, w), 0);
+    const max = row.reduce((m, w) => Math.max(m, w), 0);
+    scale[r] = max > min ? (max - min) / 255 : 1;
+    zeroPoint[r] = Math.min(255, Math.max(0, Math.round(-min / scale[r])));
+    for (let c = 0; c < cols; c++) {
+      data[r * cols + c] = Math.min(255, Math.max(0, Math.round(row[c] / scale[r]) + zeroPoint[r]));
+    }
+  }
+
+  return { data, scale, zeroPoint, shape, dtype: 'int8' };
+}
+
 /**
  * Dequantize FP16 weights
  */